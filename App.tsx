@@ -3,21 +3,29 @@ import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react'
 import { Header } from './components/Header';
 import { UrlInput } from './components/UrlInput';
 import { SeoDataTable } from './components/SeoDataTable';
-import { SeoAnalysis, AiConfig, WordPressCreds, RewriteSuggestion, TopicCluster } from './types';
+import { SeoAnalysis, AiConfig, WordPressCreds, RewriteSuggestion, TopicCluster, CrawlOptions, CrawlScope, SocialMetaUpdate, JsonLdSchemaType, CannibalizationGroup, TopicClusteringMode, SimilarPage } from './types';
 import { crawlSite, processAndScanUrls } from './services/crawlerService';
 import { parseFileForUrls } from './services/fileParserService';
 import { AILoadBalancer, Job } from './services/aiLoadBalancer';
-import { updateSeoOnWordPress } from './services/wordpressService';
+import { updateSeoOnWordPress, updateSchemaOnWordPress, getSocialUpdate } from './services/wordpressService';
 import { ApiConfig } from './components/ApiConfig';
 import { WordPressCredsModal } from './components/WordPressCredsModal';
+import { SitemapSelectionModal } from './components/SitemapSelectionModal';
+import { NearDuplicatesPanel } from './components/NearDuplicatesPanel';
+import { CannibalizationPanel } from './components/CannibalizationPanel';
 import { Dashboard } from './components/Dashboard';
 import { ProgressBar } from './components/common/ProgressBar';
 import Footer from './components/Footer';
-import { extractTopicsForClustering, calculatePriorityScore } from './services/aiService';
+import { extractTopicsForClustering, polishClusterLabels, embedPages, supportsEmbeddings, calculatePriorityScore, generateJsonLdSchema, generateDifferentiatedTitles } from './services/aiService';
+import { clusterTopicsLocally, clusterByEmbeddings, LocalClusteringResult } from './services/topicClusteringService';
 import { fetchSerpData } from './services/serpService';
 import { cacheService } from './services/cacheService';
+import { SensitiveRequestBlockedError } from './services/fetchService';
 import { SiteStructurePanel } from './components/SiteStructurePanel';
 import { DetailPanel } from './components/DetailPanel';
+import { SiteGraph } from './components/SiteGraph';
+import { ProxySettings } from './components/ProxySettings';
+import { NetworkDiagnosticsPanel } from './components/NetworkDiagnosticsPanel';
 import { ReviewAndSyncPanel } from './components/ReviewAndSyncPanel';
 import { BulkOperationsPanel } from './components/BulkOperationsPanel';
 
@@ -25,6 +33,10 @@ import { BulkOperationsPanel } from './components/BulkOperationsPanel';
 const App: React.FC = () => {
     type ViewMode = 'dashboard' | 'review';
     type AuditStage = 'idle' | 'crawling' | 'clustering' | 'analyzing' | 'prioritizing' | 'complete';
+    // Shown while a stage hasn't reported countable progress yet, e.g. robots.txt and sitemap parsing.
+    const stageLabels: Record<AuditStage, string> = {
+        idle: '', crawling: 'Scanning Site...', clustering: 'Clustering Topics...', analyzing: 'AI Analyzing Selected Pages...', prioritizing: 'AI Calculating Priority...', complete: '',
+    };
 
     // Core State
     const [seoData, setSeoData] = useState<SeoAnalysis[]>([]);
@@ -42,17 +54,23 @@ const App: React.FC = () => {
     // Progress & Status State
     const [progress, setProgress] = useState<{ processed: number, total: number, stage: string } | null>(null);
     const [processStatus, setProcessStatus] = useState<string | null>(null);
+    const [isStopping, setIsStopping] = useState(false);
+    const [stopNotice, setStopNotice] = useState<string | null>(null);
     const [isUpdatingWp, setIsUpdatingWp] = useState(false);
     const [isAwaitingWpCreds, setIsAwaitingWpCreds] = useState(false);
     const [wpUpdateError, setWpUpdateError] = useState<string | null>(null);
+    const [sitemapChoice, setSitemapChoice] = useState<{ sitemaps: string[]; resolve: (selected: string[]) => void } | null>(null);
     
     // Filters & Sorting
     const [filter, setFilter] = useState<{ activeCluster: string }>({ activeCluster: 'All Pages' });
+    const [mainView, setMainView] = useState<'table' | 'graph'>('table');
     const [targetLocation, setTargetLocation] = useState<string | undefined>(undefined);
+    const [clusteringMode, setClusteringMode] = useState<TopicClusteringMode>(() => (localStorage.getItem('topicClusteringMode') as TopicClusteringMode) || 'ai');
     
     // Refs for batching
     const resultBufferRef = useRef<Map<string, Partial<SeoAnalysis>>>(new Map());
     const bufferFlushTimerRef = useRef<number | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
 
     const hasValidApiConfig = useMemo(() => aiConfigs.some(c => c.isValid), [aiConfigs]);
     const isBusy = useMemo(() => auditStage !== 'idle' && auditStage !== 'complete', [auditStage]);
@@ -61,6 +79,8 @@ const App: React.FC = () => {
     const auditComplete = useMemo(() => seoData.some(d => d.status === 'analyzed'), [seoData]);
     const pagesForReview = useMemo(() => seoData.filter(d => d.status === 'analyzed' && d.pendingSuggestion), [seoData]);
 
+    const pageTitles = useMemo(() => new Map(seoData.map(p => [p.url, p.title])), [seoData]);
+
     const filteredData = useMemo(() => {
         if (filter.activeCluster === 'All Pages') return seoData;
         return topicClusters.find(c => c.topic === filter.activeCluster)?.pages || [];
@@ -76,6 +96,10 @@ const App: React.FC = () => {
         localStorage.setItem('aiConfigs', JSON.stringify(aiConfigs));
     }, [aiConfigs]);
 
+    useEffect(() => {
+        localStorage.setItem('topicClusteringMode', clusteringMode);
+    }, [clusteringMode]);
+
     const handleAddConfig = (newConfig: AiConfig) => setAiConfigs(prev => [...prev, newConfig]);
     const handleRemoveConfig = (id: string) => setAiConfigs(prev => prev.filter(c => c.id !== id));
     const handleUpdateConfigValidation = (id: string, isValid: boolean) => {
@@ -94,41 +118,68 @@ const App: React.FC = () => {
         setSelectedUrls(new Set<string>());
     };
     
-    const startAudit = async (auditFn: () => Promise<SeoAnalysis[]>) => {
+    // Stopping keeps whatever finished: scanned pages stay in the table, analysed pages stay analysed and cached.
+    const handleStop = () => {
+        abortControllerRef.current?.abort();
+        setIsStopping(true);
+    };
+
+    // A fresh controller per run; the stop notice of the previous run goes away with it.
+    const beginRun = () => {
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setIsStopping(false);
+        setStopNotice(null);
+        return controller;
+    };
+
+    const startAudit = async (auditFn: (signal: AbortSignal) => Promise<SeoAnalysis[]>) => {
         resetStateForNewJob();
         setAuditStage('crawling');
+        const controller = beginRun();
         try {
-            const initialData = await auditFn();
+            const initialData = await auditFn(controller.signal);
             setSeoData(initialData);
             setAuditStage('idle'); 
             setProcessStatus("Scan Complete. Select pages to analyze.");
+            if (controller.signal.aborted) setStopNotice(`Scan stopped. Kept the ${initialData.length} pages scanned so far.`);
             setProgress(null);
         } catch (e) {
             console.error(e);
-            setError(`Failed during initial data discovery. ${(e as Error).message}`);
+            if (controller.signal.aborted) setStopNotice('Scan stopped before any pages were scanned.');
+            else setError(`Failed during initial data discovery. ${(e as Error).message}`);
             setAuditStage('idle');
+            setProgress(null);
+        } finally {
+            abortControllerRef.current = null;
         }
     }
 
-    const handleCrawl = (url: string, sitemapUrl?: string, location?: string) => {
+    const handleCrawl = (url: string, sitemapUrl?: string, location?: string, crawlOptions?: CrawlOptions) => {
         setTargetLocation(location);
-        startAudit(() => crawlSite(
+        startAudit((signal) => crawlSite(
             url, sitemapUrl, 
             (p, t) => setProgress({ processed: p, total: t, stage: 'Scanning Site...' }),
-            (msg) => setProcessStatus(msg)
+            (msg) => setProcessStatus(msg),
+            crawlOptions,
+            (sitemaps) => new Promise<string[]>(resolve => setSitemapChoice({ sitemaps, resolve })),
+            signal
         ));
     };
 
-    const handleProcessFile = (file: File, location?: string) => {
+    const handleProcessFile = (file: File, location?: string, scope?: CrawlScope) => {
         setTargetLocation(location);
-        startAudit(async () => {
+        startAudit(async (signal) => {
             setProcessStatus("Parsing file for URLs...");
             const urls = await parseFileForUrls(file);
             setProcessStatus(`Found ${urls.length} URLs. Starting processing...`);
             return processAndScanUrls(
                 urls,
                 (p, t) => setProgress({ processed: p, total: t, stage: 'Scanning URLs...' }),
-                (msg) => setProcessStatus(msg)
+                (msg) => setProcessStatus(msg),
+                {},
+                scope,
+                signal
             );
         });
     };
@@ -173,10 +224,15 @@ const App: React.FC = () => {
              return;
         }
 
-        const scopeData = seoData.filter(p => targetUrls.includes(p.url));
+        // Pages that can never rank (noindex, canonicalised elsewhere, HTTP errors) are not worth an AI call.
+        const isNonIndexable = (p: SeoAnalysis) => !!p.quickScan && p.quickScan.indexability !== 'indexable';
+        const skippedCount = seoData.filter(p => targetUrls.includes(p.url) && isNonIndexable(p)).length;
+        const scopeData = seoData.filter(p => targetUrls.includes(p.url) && !isNonIndexable(p));
+        if (skippedCount > 0) setProcessStatus(`Skipping ${skippedCount} non-indexable pages.`);
         if (scopeData.length === 0) return;
         
         setAuditStage('clustering');
+        const { signal } = beginRun();
         
         const cachedAnalysis = await cacheService.getMany(targetUrls);
         const nonCachedForCluster = scopeData.filter(p => !cachedAnalysis.has(p.url) && !p.topic);
@@ -190,24 +246,64 @@ const App: React.FC = () => {
              }
         });
 
+        let newTopics = new Map<string, string>();
+        let similarPages = new Map<string, SimilarPage[]>();
         if (nonCachedForCluster.length > 0) {
              const topicExtractorConfig = validConfigs[0];
-             const newTopics = await extractTopicsForClustering(
-                nonCachedForCluster, topicExtractorConfig,
-                (processed, total) => setProgress({ stage: 'AI Clustering Topics...', processed, total })
-            );
+             if (clusteringMode === 'ai') {
+                newTopics = await extractTopicsForClustering(
+                    nonCachedForCluster, topicExtractorConfig,
+                    (processed, total) => setProgress({ stage: 'AI Clustering Topics...', processed, total }),
+                    signal
+                );
+             } else {
+                // Fit on every fetched page so small batches still land in site-wide topics.
+                const corpus = seoData.filter(p => p.status !== 'blocked' && !p.quickScan?.isHttpError);
+                let local: LocalClusteringResult | null = null;
+                const embeddingConfig = clusteringMode === 'embeddings' ? validConfigs.find(supportsEmbeddings) : undefined;
+                if (embeddingConfig) {
+                    try {
+                        const embeddings = await embedPages(corpus, embeddingConfig, (processed, total) => setProgress({ stage: 'Embedding Pages...', processed, total }), signal);
+                        const embedded = clusterByEmbeddings(corpus, embeddings);
+                        similarPages = embedded.similarPages;
+                        local = embedded;
+                    } catch (e) {
+                        if (!signal.aborted) console.error('Embedding clustering failed, falling back to local clustering', e);
+                        if (e instanceof SensitiveRequestBlockedError) setError(`Embedding clustering skipped, using local clustering. ${e.message}`);
+                    }
+                }
+                if (!local) {
+                    setProcessStatus('Clustering topics locally...');
+                    local = clusterTopicsLocally(corpus);
+                }
+                // Only clusters that gained pages need a name; the rest are never shown under the new label.
+                const needsLabel = new Set(nonCachedForCluster.map(p => local.topics.get(p.url)));
+                const clustersToName = local.clusters.filter(c => needsLabel.has(c.label));
+                if (clusteringMode === 'local-ai-labels' && clustersToName.length > 0 && !signal.aborted) {
+                    const renamed = await polishClusterLabels(
+                        clustersToName, new Map(corpus.map(p => [p.url, p.title])), topicExtractorConfig,
+                        (processed, total) => setProgress({ stage: 'AI Naming Clusters...', processed, total }),
+                        signal
+                    );
+                    local.topics.forEach((label, url) => local.topics.set(url, renamed.get(label) ?? label));
+                }
+                nonCachedForCluster.forEach(p => newTopics.set(p.url, local.topics.get(p.url) ?? 'Uncategorized'));
+             }
             
             setSeoData(prev => prev.map(p => {
                 if (newTopics.has(p.url)) {
-                    return { ...p, topic: newTopics.get(p.url), primaryTopic: newTopics.get(p.url) };
+                    return { ...p, topic: newTopics.get(p.url), primaryTopic: newTopics.get(p.url), similarPages: similarPages.get(p.url) ?? p.similarPages };
                 }
+                if (similarPages.has(p.url)) return { ...p, similarPages: similarPages.get(p.url) };
                 return p;
             }));
         }
 
+        // seoData is this render's snapshot, so topics assigned above are looked up in newTopics.
+        const topicOf = (page: SeoAnalysis) => newTopics.get(page.url) || page.topic || 'Uncategorized';
         const clustersMap = new Map<string, SeoAnalysis[]>();
         seoData.forEach(page => {
-            const topic = page.topic || 'Uncategorized';
+            const topic = topicOf(page);
             if (!clustersMap.has(topic)) clustersMap.set(topic, []);
             clustersMap.get(topic)!.push(page);
         });
@@ -223,21 +319,22 @@ const App: React.FC = () => {
         const pagesToAnalyze: Job[] = [];
         
         for (const page of scopeData) {
+            if (signal.aborted) break;
             const cached = cachedAnalysis.get(page.url);
             
             if (operation === 'analyze' && cached && cached.suggestions && cached.titleGrade) {
                 resultBufferRef.current.set(page.url, { ...cached, status: 'analyzed' });
                 completedCount++;
             } else {
-                 const topic = page.topic || 'Uncategorized';
-                 const serpData = await fetchSerpData(topic, targetLocation);
+                 const topic = topicOf(page);
+                 const serpData = await fetchSerpData(topic, targetLocation, (message) => setProcessStatus(`Live SERP data unavailable for "${topic}". ${message}`), signal);
                  
                  const clusterSiblings = seoData
-                    .filter(p => (p.topic === topic || p.topic === page.topic) && p.url !== page.url)
+                    .filter(p => topicOf(p) === topic && p.url !== page.url)
                     .map(p => ({ url: p.url, title: p.title }));
 
                  pagesToAnalyze.push({
-                    data: page,
+                    data: similarPages.has(page.url) ? { ...page, similarPages: similarPages.get(page.url) } : page,
                     retries: 0,
                     serpData: serpData,
                     topicCluster: clusterSiblings
@@ -249,7 +346,7 @@ const App: React.FC = () => {
 
         const totalToAnalyze = pagesToAnalyze.length;
 
-        if (totalToAnalyze > 0) {
+        if (totalToAnalyze > 0 && !signal.aborted) {
             balancer.onProgress(progress => {
                 requestAnimationFrame(() => {
                     setProgress({ stage: `AI Analyzing Selected Pages...`, processed: progress.completed + completedCount, total: scopeData.length });
@@ -282,7 +379,7 @@ const App: React.FC = () => {
                  if (!bufferFlushTimerRef.current) bufferFlushTimerRef.current = window.setTimeout(flushResultBuffer, 1000);
             });
             
-            await balancer.processQueue(pagesToAnalyze, { allPages: seoData, targetLocation });
+            await balancer.processQueue(pagesToAnalyze, { allPages: seoData, targetLocation }, signal);
             flushResultBuffer();
         }
 
@@ -291,11 +388,12 @@ const App: React.FC = () => {
         
         const pagesToScore = seoData.filter(p => targetUrls.includes(p.url) && p.status === 'analyzed' && p.priorityScore === undefined);
         
-        if (pagesToScore.length > 0) {
+        if (pagesToScore.length > 0 && !signal.aborted) {
              const scores = await calculatePriorityScore(
                 pagesToScore,
                 validConfigs[0],
-                (processed, total) => setProgress({ stage: 'AI Calculating Priority...', processed, total })
+                (processed, total) => setProgress({ stage: 'AI Calculating Priority...', processed, total }),
+                signal
             );
             
             setSeoData(prev => prev.map(p => {
@@ -309,27 +407,33 @@ const App: React.FC = () => {
             }));
         }
 
+        abortControllerRef.current = null;
         setAuditStage('complete');
         setProgress(null);
         setProcessStatus(null);
+        if (signal.aborted) setStopNotice('Analysis stopped. Pages analysed before stopping were kept.');
     };
 
     const handleRowClick = useCallback((url: string) => {
         setActiveDetailUrl(url);
     }, []);
 
-    const handleUpdateSeo = async (url: string, newTitle: string, newDescription: string): Promise<void> => {
+    const handleUpdateSeo = async (url: string, newTitle: string, newDescription: string, social?: SocialMetaUpdate): Promise<void> => {
         if (!wpCreds) {
             setIsAwaitingWpCreds(true);
             throw new Error("WordPress credentials are not configured.");
         }
         setSeoData(prevData => prevData.map(item => item.url === url ? { ...item, status: 'updating' } : item));
         try {
-            await updateSeoOnWordPress(wpCreds, url, newTitle, newDescription);
+            await updateSeoOnWordPress(wpCreds, url, newTitle, newDescription, social);
+            const current = seoData.find(i => i.url === url)!;
             const updatedItem = { 
-                ...seoData.find(i => i.url === url)!, 
+                ...current, 
                 title: newTitle, 
                 description: newDescription, 
+                socialMeta: social
+                    ? { ...current.socialMeta, ogTitle: social.title, ogDescription: social.description, twitterTitle: social.title, twitterDescription: social.description }
+                    : current.socialMeta,
                 status: 'synced' as const, 
                 pendingSuggestion: undefined 
             };
@@ -343,6 +447,45 @@ const App: React.FC = () => {
         }
     };
 
+    const handleGenerateSchema = async (url: string, schemaType: JsonLdSchemaType | 'auto'): Promise<void> => {
+        const config = aiConfigs.find(c => c.isValid);
+        if (!config) throw new Error("Please add and validate at least one AI provider API key first.");
+        const page = seoData.find(p => p.url === url);
+        if (!page) return;
+
+        const generatedSchema = await generateJsonLdSchema(page, config, schemaType, targetLocation);
+        const updatedItem = { ...page, generatedSchema };
+        setSeoData(prevData => prevData.map(item => item.url === url ? { ...item, generatedSchema } : item));
+        cacheService.set(url, updatedItem);
+    };
+
+    // Suggestions land as pending rewrites so they go through Review & Sync like any other.
+    const handleDifferentiateGroup = async (group: CannibalizationGroup): Promise<void> => {
+        const config = aiConfigs.find(c => c.isValid);
+        if (!config) throw new Error("Please add and validate at least one AI provider API key first.");
+        const pages = seoData.filter(p => group.urls.includes(p.url));
+
+        const suggestions = await generateDifferentiatedTitles(group, pages, config, targetLocation);
+        const withSuggestion = (item: SeoAnalysis): SeoAnalysis => ({
+            ...item,
+            pendingSuggestion: suggestions.get(item.url),
+            semanticDiff: undefined,
+            status: item.status === 'synced' ? 'analyzed' : item.status,
+        });
+        setSeoData(prevData => prevData.map(item => suggestions.has(item.url) ? withSuggestion(item) : item));
+        pages.filter(p => suggestions.has(p.url)).forEach(p => cacheService.set(p.url, withSuggestion(p)));
+    };
+
+    const handlePushSchema = async (url: string): Promise<void> => {
+        if (!wpCreds) {
+            setIsAwaitingWpCreds(true);
+            throw new Error("WordPress credentials are not configured.");
+        }
+        const schema = seoData.find(p => p.url === url)?.generatedSchema;
+        if (!schema) return;
+        await updateSchemaOnWordPress(wpCreds, url, schema.jsonLd);
+    };
+
     const handleBulkUpdate = async (): Promise<void> => {
         if (!wpCreds) {
             setIsAwaitingWpCreds(true);
@@ -361,9 +504,10 @@ const App: React.FC = () => {
 
         const promises = urlsToUpdate.map(url => {
             const page = seoData.find(p => p.url === url)!;
-            return handleUpdateSeo(url, page.pendingSuggestion!.title, page.pendingSuggestion!.description)
+            return handleUpdateSeo(url, page.pendingSuggestion!.title, page.pendingSuggestion!.description, getSocialUpdate(page.pendingSuggestion!))
                 .catch(e => {
                     console.error(`Failed to update ${url}:`, e);
+                    if (e instanceof SensitiveRequestBlockedError) setWpUpdateError(e.message);
                 });
         });
         
@@ -372,7 +516,7 @@ const App: React.FC = () => {
         setSelectedUrls(new Set()); 
     }
 
-    const handleReviewSync = async (items: { url: string; title: string; description: string }[]) => {
+    const handleReviewSync = async (items: { url: string; title: string; description: string; social?: SocialMetaUpdate }[]) => {
         if (!wpCreds) {
             setIsAwaitingWpCreds(true);
             return;
@@ -382,9 +526,10 @@ const App: React.FC = () => {
         setWpUpdateError(null);
 
         const promises = items.map(item => {
-            return handleUpdateSeo(item.url, item.title, item.description)
+            return handleUpdateSeo(item.url, item.title, item.description, item.social)
                 .catch(e => {
                     console.error(`Failed to update ${item.url}:`, e);
+                    if (e instanceof SensitiveRequestBlockedError) setWpUpdateError(e.message);
                 });
         });
         
@@ -440,8 +585,11 @@ const App: React.FC = () => {
                     onAddConfig={handleAddConfig}
                     onRemoveConfig={handleRemoveConfig}
                     onUpdateValidation={handleUpdateConfigValidation}
+                    clusteringMode={clusteringMode}
+                    onClusteringModeChange={setClusteringMode}
                     isDisabled={isBusy} 
                 />
+                <ProxySettings isDisabled={isBusy} />
                 
                 {seoData.length === 0 && !isBusy && (
                     <UrlInput 
@@ -454,21 +602,40 @@ const App: React.FC = () => {
                 
                 {error && <div className="mt-6 p-4 glass-panel border-red-500/50 text-red-300 rounded-xl">{error}</div>}
                 
-                {isBusy && progress && (
+                {stopNotice && !isBusy && (
+                    <div className="mt-6 p-4 glass-panel border-amber-500/50 text-amber-300 rounded-xl flex justify-between items-center gap-4">
+                        <span>{stopNotice}</span>
+                        <button onClick={() => setStopNotice(null)} className="text-xs text-slate-400 hover:text-white">Dismiss</button>
+                    </div>
+                )}
+                
+                {isBusy && (
                     <div className="mt-8 text-center space-y-4">
                         <p className="text-xl text-transparent bg-clip-text bg-gradient-to-r from-indigo-300 to-purple-300 font-bold animate-pulse">
-                            {progress.stage}
+                            {progress?.stage ?? stageLabels[auditStage]}
                         </p>
-                        <ProgressBar 
-                           progress={progress.total > 0 ? (progress.processed / progress.total) * 100 : 0}
-                           label={`${processStatus || ''} (${progress.processed}/${progress.total})`}
-                       />
+                        {progress ? (
+                            <ProgressBar 
+                               progress={progress.total > 0 ? (progress.processed / progress.total) * 100 : 0}
+                               label={`${processStatus || ''} (${progress.processed}/${progress.total})`}
+                           />
+                        ) : (
+                            processStatus && <p className="text-sm font-medium text-slate-300 max-w-2xl mx-auto">{processStatus}</p>
+                        )}
+                        <button onClick={handleStop} disabled={isStopping}
+                            className="px-5 py-2 text-sm font-semibold text-rose-200 bg-rose-800/50 hover:bg-rose-800 rounded-lg disabled:opacity-50 transition-colors">
+                            {isStopping ? 'Stopping...' : 'Stop'}
+                        </button>
                     </div>
                 )}
                 
+                <NetworkDiagnosticsPanel />
+
                 {viewMode === 'dashboard' && seoData.length > 0 && (
                     <>
                         <Dashboard data={seoData} onSwitchView={setViewMode} showReviewButton={pagesForReview.length > 0} />
+                        <NearDuplicatesPanel data={seoData} onSelectUrl={handleRowClick} />
+                        <CannibalizationPanel data={seoData} onSelectUrl={handleRowClick} onDifferentiate={handleDifferentiateGroup} onOpenReview={() => setViewMode('review')} />
                         <div className="flex-grow grid grid-cols-12 gap-6 mt-6 min-h-[600px] relative">
                             {/* Site Structure Sidebar (Hidden on small mobile) */}
                             <div className="hidden lg:block col-span-3">
@@ -479,22 +646,34 @@ const App: React.FC = () => {
                                 />
                             </div>
                             
-                            {/* Main Data Table */}
-                            <div className={`transition-all duration-300 ${activeDetailUrl ? 'col-span-12 lg:col-span-5' : 'col-span-12 lg:col-span-9'}`}>
-                                <SeoDataTable
-                                    data={filteredData}
-                                    onRowClick={handleRowClick}
-                                    activeUrl={activeDetailUrl}
-                                    selectedUrls={selectedUrls}
-                                    onToggleSelection={handleToggleSelection}
-                                    onSelectAll={handleSelectAll}
-                                />
+                            {/* Main Data Table or Site Graph */}
+                            <div className={`transition-all duration-300 flex flex-col ${activeDetailUrl ? 'col-span-12 lg:col-span-5' : 'col-span-12 lg:col-span-9'}`}>
+                                <div className="flex self-end rounded-lg overflow-hidden border border-slate-700 mb-3">
+                                    {(['table', 'graph'] as const).map(v => (
+                                        <button key={v} onClick={() => setMainView(v)}
+                                            className={`px-3 py-1.5 text-xs font-bold uppercase tracking-wide ${mainView === v ? 'bg-indigo-600 text-white' : 'bg-slate-900/60 text-slate-400 hover:text-white'}`}>
+                                            {v === 'table' ? 'Table' : 'Graph'}
+                                        </button>
+                                    ))}
+                                </div>
+                                {mainView === 'graph' ? (
+                                    <SiteGraph pages={filteredData} activeUrl={activeDetailUrl} onSelectNode={handleRowClick} />
+                                ) : (
+                                    <SeoDataTable
+                                        data={filteredData}
+                                        onRowClick={handleRowClick}
+                                        activeUrl={activeDetailUrl}
+                                        selectedUrls={selectedUrls}
+                                        onToggleSelection={handleToggleSelection}
+                                        onSelectAll={handleSelectAll}
+                                    />
+                                )}
                             </div>
                             
                             {/* Detail Panel - Overlay on Mobile, Sidebar on Desktop */}
                             {activeDetailUrl && (
                                 <div className="fixed inset-0 z-50 lg:static lg:z-auto lg:col-span-4 lg:inset-auto">
-                                    <DetailPanel data={activeDetailData} onClose={() => setActiveDetailUrl(null)} onUpdate={handleUpdateSeo} isUpdating={isUpdatingWp} updateError={wpUpdateError} />
+                                    <DetailPanel data={activeDetailData} onClose={() => setActiveDetailUrl(null)} onUpdate={handleUpdateSeo} onGenerateSchema={handleGenerateSchema} onPushSchema={handlePushSchema} isUpdating={isUpdatingWp} updateError={wpUpdateError} pageTitles={pageTitles} onSelectUrl={handleRowClick} />
                                 </div>
                             )}
                         </div>
@@ -533,6 +712,21 @@ const App: React.FC = () => {
                 />
             )}
             
+            {sitemapChoice && (
+                <SitemapSelectionModal
+                    sitemaps={sitemapChoice.sitemaps}
+                    onConfirm={(selected) => {
+                        sitemapChoice.resolve(selected);
+                        setSitemapChoice(null);
+                    }}
+                    onCancel={() => {
+                        handleStop();
+                        sitemapChoice.resolve([]);
+                        setSitemapChoice(null);
+                    }}
+                />
+            )}
+            
             <Footer />
         </div>
     );
@@ -1,13 +1,15 @@
 import React, { useState } from 'react';
-import { AiConfig, AiProvider } from '../types';
+import { AiConfig, AiProvider, TopicClusteringMode } from '../types';
 import { Spinner } from './common/Spinner';
-import { validateApiKey } from '../services/aiService';
+import { validateApiKey, supportsEmbeddings } from '../services/aiService';
 
 interface ApiConfigProps {
     configs: AiConfig[];
     onAddConfig: (config: AiConfig) => void;
     onRemoveConfig: (id: string) => void;
     onUpdateValidation: (id: string, isValid: boolean) => void;
+    clusteringMode: TopicClusteringMode;
+    onClusteringModeChange: (mode: TopicClusteringMode) => void;
     isDisabled: boolean;
 }
 
@@ -18,6 +20,13 @@ const providerOptions: { value: AiProvider; label: string }[] = [
     { value: 'groq', label: 'Groq' },
 ];
 
+const clusteringOptions: { value: TopicClusteringMode; label: string }[] = [
+    { value: 'ai', label: 'AI (one call per page)' },
+    { value: 'local', label: 'Local TF-IDF (no AI calls)' },
+    { value: 'local-ai-labels', label: 'Local TF-IDF + AI cluster names' },
+    { value: 'embeddings', label: 'Embeddings (Gemini / OpenAI keys)' },
+];
+
 const AddConfigForm: React.FC<{ 
     onAdd: (config: AiConfig) => void;
     onUpdateValidation: (id: string, isValid: boolean) => void;
@@ -46,7 +55,16 @@ const AddConfigForm: React.FC<{
         
         onAdd(newConfig);
 
-        const success = await validateApiKey(newConfig);
+        let success = false;
+        try {
+            success = await validateApiKey(newConfig);
+        } catch (e) {
+            // validateApiKey only throws when the request was blocked before reaching the provider.
+            onUpdateValidation(newConfig.id, false);
+            setError((e as Error).message);
+            setIsValidating(false);
+            return;
+        }
         onUpdateValidation(newConfig.id, success);
         
         if (success) {
@@ -117,7 +135,7 @@ const AddConfigForm: React.FC<{
     );
 };
 
-export const ApiConfig: React.FC<ApiConfigProps> = ({ configs, onAddConfig, onRemoveConfig, onUpdateValidation, isDisabled }) => {
+export const ApiConfig: React.FC<ApiConfigProps> = ({ configs, onAddConfig, onRemoveConfig, onUpdateValidation, clusteringMode, onClusteringModeChange, isDisabled }) => {
     return (
         <div className="bg-slate-800/50 p-6 rounded-xl border border-slate-700 shadow-lg">
              <h2 className="text-xl font-semibold text-slate-200">Configure AI Providers</h2>
@@ -152,6 +170,23 @@ export const ApiConfig: React.FC<ApiConfigProps> = ({ configs, onAddConfig, onRe
             </div>
 
             <AddConfigForm onAdd={onAddConfig} onUpdateValidation={onUpdateValidation} isDisabled={isDisabled} />
+
+            <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
+                <label htmlFor="clusteringMode" className="text-sm font-medium text-slate-400">Topic clustering</label>
+                <select
+                    id="clusteringMode"
+                    value={clusteringMode}
+                    onChange={(e) => onClusteringModeChange(e.target.value as TopicClusteringMode)}
+                    disabled={isDisabled}
+                    className="px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-white text-sm"
+                >
+                    {clusteringOptions.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                </select>
+                <p className="text-xs text-slate-500">Local clustering groups large sites in seconds instead of one AI call per page.</p>
+            </div>
+            {clusteringMode === 'embeddings' && !configs.some(c => c.isValid && supportsEmbeddings(c)) && (
+                <p className="mt-2 text-xs text-amber-400">Embeddings need a validated Gemini or OpenAI key. Until one is added, local TF-IDF clustering is used.</p>
+            )}
         </div>
     );
 };
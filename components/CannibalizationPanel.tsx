@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import { CannibalizationFix, CannibalizationGroup, SeoAnalysis } from '../types';
+import { detectContentCannibalization } from '../services/aiService';
+
+interface CannibalizationPanelProps {
+    data: SeoAnalysis[];
+    onSelectUrl: (url: string) => void;
+    onDifferentiate: (group: CannibalizationGroup) => Promise<void>;
+    onOpenReview: () => void;
+}
+
+const GROUPS_SHOWN = 20;
+
+const severityStyles: Record<CannibalizationGroup['severity'], string> = {
+    high: 'bg-rose-500/20 text-rose-300 border-rose-500/30',
+    medium: 'bg-amber-500/20 text-amber-300 border-amber-500/30',
+    low: 'bg-slate-500/20 text-slate-300 border-slate-500/30',
+};
+
+const fixLabels: Record<CannibalizationFix, string> = {
+    merge: 'Merge',
+    differentiate: 'Differentiate',
+    canonicalize: 'Canonicalise',
+};
+
+const GroupCard: React.FC<{ group: CannibalizationGroup; pages: Map<string, SeoAnalysis> } & Omit<CannibalizationPanelProps, 'data'>> = ({ group, pages, onSelectUrl, onDifferentiate, onOpenReview }) => {
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const hasSuggestions = group.urls.some(url => pages.get(url)?.pendingSuggestion);
+
+    const handleGenerate = async () => {
+        setIsGenerating(true);
+        setError(null);
+        try {
+            await onDifferentiate(group);
+        } catch (e) {
+            setError((e as Error).message);
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    return (
+        <div className="bg-slate-900/50 border border-slate-700/50 rounded-xl p-4 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+                <span className={`px-2 py-0.5 rounded-md border text-[10px] font-bold uppercase tracking-wide ${severityStyles[group.severity]}`}>{group.severity}</span>
+                <span className="px-2 py-0.5 rounded-md bg-indigo-500/20 text-indigo-300 text-[10px] font-bold uppercase tracking-wide">{fixLabels[group.recommendation]}</span>
+                <span className="text-sm font-semibold text-white truncate">{group.topic}</span>
+                <span className="ml-auto text-[10px] text-slate-500 font-mono">
+                    overlap {Math.round(group.score * 100)}% · titles {Math.round(group.titleSimilarity * 100)}%{group.sharedIntent ? ` · ${group.sharedIntent}` : ''}
+                </span>
+            </div>
+
+            <p className="text-xs text-slate-400">{group.reason}</p>
+
+            {group.sharedKeywords.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                    {group.sharedKeywords.map(keyword => (
+                        <span key={keyword} className="px-2 py-0.5 rounded-full bg-slate-800 text-slate-300 text-[10px]">{keyword}</span>
+                    ))}
+                </div>
+            )}
+
+            <ul className="space-y-1.5">
+                {group.urls.map(url => {
+                    const page = pages.get(url);
+                    return (
+                        <li key={url}>
+                            <button onClick={() => onSelectUrl(url)} className="w-full text-left group">
+                                <p className="text-sm text-slate-200 group-hover:text-indigo-300 truncate">
+                                    {url === group.primaryUrl && <span className="text-[10px] font-bold text-emerald-400 uppercase mr-2">Primary</span>}
+                                    {page?.title || url}
+                                </p>
+                                {page?.pendingSuggestion && <p className="text-xs text-indigo-300 truncate">→ {page.pendingSuggestion.title}</p>}
+                                <p className="text-[10px] text-slate-500 font-mono truncate">{url}</p>
+                            </button>
+                        </li>
+                    );
+                })}
+            </ul>
+
+            <div className="flex flex-wrap items-center gap-3">
+                <button onClick={handleGenerate} disabled={isGenerating}
+                    className="px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-700 disabled:text-slate-400 text-white text-xs font-bold">
+                    {isGenerating ? 'Generating...' : 'Generate differentiated titles'}
+                </button>
+                {hasSuggestions && (
+                    <button onClick={onOpenReview} className="text-xs font-bold text-indigo-300 hover:text-white">Review suggestions →</button>
+                )}
+                {error && <span className="text-xs text-rose-400">{error}</span>}
+            </div>
+        </div>
+    );
+};
+
+export const CannibalizationPanel: React.FC<CannibalizationPanelProps> = ({ data, onSelectUrl, onDifferentiate, onOpenReview }) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    const groups = useMemo(() => {
+        const clusters = new Map<string, SeoAnalysis[]>();
+        data.forEach(page => {
+            const topic = page.topic || 'Uncategorized';
+            if (!clusters.has(topic)) clusters.set(topic, []);
+            clusters.get(topic)!.push(page);
+        });
+        return detectContentCannibalization(clusters);
+    }, [data]);
+
+    const pagesByUrl = useMemo(() => new Map(data.map(p => [p.url, p])), [data]);
+
+    if (groups.length === 0) return null;
+
+    const highCount = groups.filter(g => g.severity === 'high').length;
+    const pageCount = groups.reduce((sum, g) => sum + g.urls.length, 0);
+
+    return (
+        <div className="mt-6 glass-panel rounded-2xl overflow-hidden">
+            <button onClick={() => setIsOpen(o => !o)} className="w-full flex items-center justify-between p-5 text-left hover:bg-white/5 transition-colors">
+                <div>
+                    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Keyword Cannibalisation</h3>
+                    <p className="text-sm text-slate-300 mt-1">
+                        <span className="text-amber-300 font-semibold">{groups.length}</span> competing groups across {pageCount} pages{highCount > 0 && <>, <span className="text-rose-300 font-semibold">{highCount}</span> high severity</>}
+                    </p>
+                </div>
+                <span className="text-slate-500 text-xs font-bold">{isOpen ? 'Hide' : 'Show report'}</span>
+            </button>
+
+            {isOpen && (
+                <div className="px-5 pb-5 space-y-3 max-h-[520px] overflow-y-auto">
+                    {groups.slice(0, GROUPS_SHOWN).map(group => (
+                        <GroupCard key={group.urls.join('|')} group={group} pages={pagesByUrl} onSelectUrl={onSelectUrl} onDifferentiate={onDifferentiate} onOpenReview={onOpenReview} />
+                    ))}
+                    {groups.length > GROUPS_SHOWN && (
+                        <p className="text-xs text-slate-500 italic">Showing the {GROUPS_SHOWN} most severe of {groups.length} groups.</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,16 +1,21 @@
 
 import React, { useState, useEffect } from 'react';
-import { SeoAnalysis, RewriteSuggestion } from '../types';
+import { SeoAnalysis, RewriteSuggestion, IndexabilityVerdict, SocialMetaUpdate, JsonLdSchemaType } from '../types';
 import { Spinner } from './common/Spinner';
 import { GradeBadge } from './common/GradeBadge';
 import { SerpPreview } from './common/SerpPreview';
+import { getSocialUpdate } from '../services/wordpressService';
 
 interface DetailPanelProps {
     data: SeoAnalysis | null;
     onClose: () => void;
-    onUpdate: (url: string, newTitle: string, newDescription: string) => Promise<void>;
+    onUpdate: (url: string, newTitle: string, newDescription: string, social?: SocialMetaUpdate) => Promise<void>;
+    onGenerateSchema: (url: string, schemaType: JsonLdSchemaType | 'auto') => Promise<void>;
+    onPushSchema: (url: string) => Promise<void>;
     isUpdating: boolean;
     updateError: string | null;
+    pageTitles: Map<string, string>; // URL -> title of every crawled page, for listing related pages
+    onSelectUrl: (url: string) => void;
 }
 
 const TabButton: React.FC<{ active: boolean; onClick: () => void; children: React.ReactNode }> = ({ active, onClick, children }) => (
@@ -33,9 +38,74 @@ const InfoCard: React.FC<{ title: string; value?: string | number; grade?: numbe
     </div>
 );
 
+const schemaTypeOptions: (JsonLdSchemaType | 'auto')[] = ['auto', 'FAQPage', 'Article', 'BlogPosting', 'Product', 'LocalBusiness'];
+
+const SchemaGenerator: React.FC<{
+    data: SeoAnalysis;
+    onGenerate: (url: string, schemaType: JsonLdSchemaType | 'auto') => Promise<void>;
+    onPush: (url: string) => Promise<void>;
+}> = ({ data, onGenerate, onPush }) => {
+    const [schemaType, setSchemaType] = useState<JsonLdSchemaType | 'auto'>('auto');
+    const [busy, setBusy] = useState<'generating' | 'pushing' | null>(null);
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+    const schema = data.generatedSchema;
+    const code = schema ? `<script type="application/ld+json">\n${JSON.stringify(schema.jsonLd, null, 2)}\n</script>` : '';
+
+    const run = async (action: 'generating' | 'pushing') => {
+        setBusy(action);
+        setMessage(null);
+        try {
+            if (action === 'generating') await onGenerate(data.url, schemaType);
+            else {
+                await onPush(data.url);
+                setMessage({ text: 'Schema pushed to WordPress.', isError: false });
+            }
+        } catch (e) {
+            setMessage({ text: (e as Error).message, isError: true });
+        }
+        setBusy(null);
+    };
+
+    return (
+        <InfoCard title="JSON-LD Generator">
+            <div className="flex gap-2 mt-2">
+                <select value={schemaType} onChange={(e) => setSchemaType(e.target.value as JsonLdSchemaType | 'auto')} disabled={!!busy}
+                    className="flex-grow px-2 py-1.5 bg-slate-800 border border-slate-600 rounded-lg text-xs text-white focus:outline-none focus:ring-1 focus:ring-indigo-500">
+                    {schemaTypeOptions.map(t => <option key={t} value={t}>{t === 'auto' ? 'Auto-detect type' : t}</option>)}
+                </select>
+                <button onClick={() => run('generating')} disabled={!!busy} className="px-3 py-1.5 text-xs font-bold rounded-lg bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50">
+                    {busy === 'generating' ? <Spinner /> : schema ? 'Regenerate' : 'Generate'}
+                </button>
+            </div>
+            {schema && (
+                <>
+                    {schema.missingProperties.length > 0 && (
+                        <p className="text-[10px] text-amber-300 mt-2">Not in page content, add manually: {schema.missingProperties.join(', ')}</p>
+                    )}
+                    <pre className="mt-2 p-3 bg-black/40 rounded-lg text-[10px] text-emerald-200 font-mono overflow-x-auto max-h-64 custom-scrollbar">{code}</pre>
+                    <div className="flex gap-2 mt-2">
+                        <button onClick={() => navigator.clipboard.writeText(code).then(() => setMessage({ text: 'Copied to clipboard.', isError: false })).catch(() => setMessage({ text: 'Could not copy to the clipboard; select the code and copy it manually.', isError: true }))} className="flex-1 px-3 py-1.5 text-xs font-bold rounded-lg bg-slate-700 text-slate-200 hover:bg-slate-600">Copy</button>
+                        <button onClick={() => run('pushing')} disabled={!!busy} className="flex-1 px-3 py-1.5 text-xs font-bold rounded-lg bg-emerald-700 text-white hover:bg-emerald-600 disabled:opacity-50">
+                            {busy === 'pushing' ? <Spinner /> : 'Push to WordPress'}
+                        </button>
+                    </div>
+                </>
+            )}
+            {message && <p className={`text-[10px] mt-2 ${message.isError ? 'text-rose-400' : 'text-emerald-300'}`}>{message.text}</p>}
+        </InfoCard>
+    );
+};
+
+const indexabilityLabels: Record<IndexabilityVerdict, string> = {
+    indexable: 'Indexable',
+    noindex: 'Noindex',
+    canonicalised: 'Canonicalised Elsewhere',
+    http_error: 'HTTP Error',
+};
+
 const SparkIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5 text-amber-300" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M11.3 1.046A1 1 0 0112 2v5h4a1 1 0 01.82 1.573l-7 10A1 1 0 018 18v-5H4a1 1 0 01-.82-1.573l7-10a1 1 0 011.12-.38z" clipRule="evenodd" /></svg>;
 
-export const DetailPanel: React.FC<DetailPanelProps> = ({ data, onClose, onUpdate, isUpdating, updateError }) => {
+export const DetailPanel: React.FC<DetailPanelProps> = ({ data, onClose, onUpdate, onGenerateSchema, onPushSchema, isUpdating, updateError, pageTitles, onSelectUrl }) => {
     const [activeTab, setActiveTab] = useState<'analysis' | 'rewrite'>('rewrite');
     const [selectedSuggestion, setSelectedSuggestion] = useState<RewriteSuggestion | null>(null);
 
@@ -52,7 +122,7 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({ data, onClose, onUpdat
 
     const handleUpdateClick = async () => {
         if (selectedSuggestion) {
-            await onUpdate(data.url, selectedSuggestion.title, selectedSuggestion.description);
+            await onUpdate(data.url, selectedSuggestion.title, selectedSuggestion.description, getSocialUpdate(selectedSuggestion));
         }
     };
     
@@ -69,9 +139,26 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({ data, onClose, onUpdat
                         <div className="flex items-center gap-2 mb-2">
                              <span className="px-2 py-0.5 rounded text-[9px] font-black bg-indigo-500/20 text-indigo-300 border border-indigo-500/30 uppercase tracking-widest">SOTA Analysis</span>
                              {data.status === 'synced' && <span className="px-2 py-0.5 rounded text-[9px] font-black bg-emerald-500/20 text-emerald-300 border border-emerald-500/30 uppercase tracking-widest">Synced</span>}
+                             {data.quickScan && data.quickScan.indexability !== 'indexable' && <span className="px-2 py-0.5 rounded text-[9px] font-black bg-rose-500/20 text-rose-300 border border-rose-500/30 uppercase tracking-widest" title={data.canonicalUrl ? `Canonical: ${data.canonicalUrl}` : undefined}>{indexabilityLabels[data.quickScan.indexability]}</span>}
+                             {data.crawlDepth !== undefined && <span className="px-2 py-0.5 rounded text-[9px] font-black bg-slate-500/20 text-slate-300 border border-slate-500/30 uppercase tracking-widest" title="Clicks from the start URL">Depth {data.crawlDepth}</span>}
                         </div>
                         <h3 className="text-base font-bold text-white truncate leading-tight" title={data.url}>{data.url}</h3>
                         <p className="text-xs text-slate-400 truncate mt-1 font-mono" title={data.title}>{data.title || '(No title found)'}</p>
+                        {data.redirectTraceUnknown && (
+                            <p className="text-[10px] text-slate-400 truncate mt-1" title="The proxy that fetched this URL followed redirects without reporting them. Enable the bundled local proxy to trace every hop.">
+                                {data.redirectChain?.length ? 'Redirects; hops could not be traced' : 'Redirects could not be traced'}{data.finalUrl ? ` → ${data.finalUrl}` : ''}
+                            </p>
+                        )}
+                        {!data.redirectTraceUnknown && data.redirectChain && data.redirectChain.length > 0 && (
+                            <p className="text-[10px] text-amber-300 truncate mt-1 font-mono" title={[...data.redirectChain.map(h => `${h.status ?? '3xx'} ${h.url}`), data.finalUrl].join(' → ')}>
+                                {data.redirectChain.length} redirect{data.redirectChain.length > 1 ? 's' : ''} → {data.finalUrl}
+                            </p>
+                        )}
+                        {data.urlVariants && data.urlVariants.length > 1 && (
+                            <p className="text-[10px] text-amber-300 truncate mt-1 font-mono" title={data.urlVariants.join('\n')}>
+                                {data.urlVariants.length} discovered variants of this URL
+                            </p>
+                        )}
                     </div>
                     <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors p-2 bg-slate-800/50 rounded-full hover:bg-slate-700">
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
@@ -96,6 +183,13 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({ data, onClose, onUpdat
                         <p className="text-slate-300 mb-2 font-medium">Ready for Analysis</p>
                     </div>
                 )}
+
+                {data.status === 'blocked' && (
+                    <div className="text-center p-8 flex flex-col items-center justify-center h-full">
+                        <p className="text-rose-300 mb-2 font-medium">Blocked by robots.txt</p>
+                        <p className="text-xs text-slate-400 max-w-xs">This URL is listed for indexing but robots.txt disallows crawling it, so search engines cannot read its title or description.</p>
+                    </div>
+                )}
                 
                 {data.status === 'analyzing' && (
                     <div className="flex flex-col justify-center items-center h-full space-y-4">
@@ -121,6 +215,89 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({ data, onClose, onUpdat
                             <p className="text-xs text-slate-300 mt-2 leading-relaxed">{data.descriptionFeedback}</p>
                         </InfoCard>
 
+                        {data.headings && (
+                            <InfoCard title="Heading Outline">
+                                {data.headings.length === 0 ? (
+                                    <p className="text-xs text-rose-400 italic mt-2">No H1–H3 headings found.</p>
+                                ) : (
+                                    <ul className="mt-2 space-y-1 max-h-64 overflow-y-auto custom-scrollbar">
+                                        {data.headings.map((h, i) => (
+                                            <li key={i} className="text-[11px] text-slate-300 flex gap-2" style={{ paddingLeft: `${(h.level - 1) * 12}px` }}>
+                                                <span className={`font-mono font-bold flex-shrink-0 ${h.level === 1 ? 'text-indigo-300' : 'text-slate-500'}`}>H{h.level}</span>
+                                                <span className="truncate" title={h.text}>{h.text}</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </InfoCard>
+                        )}
+
+                        {(data.inlinks || data.outboundLinks) && (
+                            <InfoCard title="Internal Links">
+                                <p className="text-xs text-slate-300 mt-2">
+                                    <span className={`font-bold ${data.inlinks?.length === 0 ? 'text-rose-400' : 'text-white'}`}>{data.inlinks?.length ?? '–'}</span> inlinks · <span className="font-bold text-white">{data.outboundLinks?.length ?? '–'}</span> outlinks
+                                </p>
+                                {data.inlinks && data.inlinks.length > 0 && (
+                                    <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+                                        {data.inlinks.slice(0, 20).map(link => (
+                                            <li key={link.url} className="text-[11px] text-slate-400 truncate" title={link.url}>
+                                                <span className="text-slate-200">{link.anchorText || '(no anchor text)'}</span> ← <span className="font-mono">{link.url.replace(/^https?:\/\/[^/]+/, '')}</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </InfoCard>
+                        )}
+
+                        {data.similarPages && data.similarPages.length > 0 && (
+                            <InfoCard title="Similar Pages">
+                                <ul className="mt-2 space-y-1">
+                                    {data.similarPages.map(similar => (
+                                        <li key={similar.url}>
+                                            <button onClick={() => onSelectUrl(similar.url)} className="w-full flex items-center gap-2 text-left text-[11px] group" title={similar.url}>
+                                                <span className="font-mono text-slate-500 w-8 flex-shrink-0">{Math.round(similar.similarity * 100)}%</span>
+                                                <span className="text-slate-300 group-hover:text-indigo-300 truncate">{pageTitles.get(similar.url) || similar.url.replace(/^https?:\/\/[^/]+/, '')}</span>
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </InfoCard>
+                        )}
+
+                        {data.structuredData && (
+                            <InfoCard title="Structured Data (JSON-LD)">
+                                {data.structuredData.items.length === 0 && data.structuredData.parseErrors.length === 0 && (
+                                    <p className="text-xs text-slate-400 italic mt-2">No JSON-LD found on this page.</p>
+                                )}
+                                <ul className="mt-2 space-y-1.5">
+                                    {data.structuredData.items.map((item, i) => (
+                                        <li key={i} className="text-[11px]">
+                                            <span className={`font-mono font-bold ${item.missingProperties.length > 0 ? 'text-amber-300' : 'text-emerald-300'}`}>{item.type}</span>
+                                            {item.missingProperties.length > 0 && <span className="text-slate-400"> — missing {item.missingProperties.join(', ')}</span>}
+                                        </li>
+                                    ))}
+                                    {data.structuredData.parseErrors.map((err, i) => (
+                                        <li key={`err-${i}`} className="text-[11px] text-rose-400">Invalid JSON: {err}</li>
+                                    ))}
+                                </ul>
+                            </InfoCard>
+                        )}
+
+                        <SchemaGenerator key={data.url} data={data} onGenerate={onGenerateSchema} onPush={onPushSchema} />
+
+                        {data.socialMeta && (
+                            <InfoCard title="Social Tags (OG / Twitter)">
+                                <dl className="mt-2 space-y-1 text-[10px]">
+                                    {([['og:title', data.socialMeta.ogTitle], ['og:description', data.socialMeta.ogDescription], ['og:image', data.socialMeta.ogImage], ['twitter:title', data.socialMeta.twitterTitle], ['twitter:description', data.socialMeta.twitterDescription]] as const).map(([tag, value]) => (
+                                        <div key={tag} className="flex gap-2">
+                                            <dt className="text-slate-500 font-mono w-28 flex-shrink-0">{tag}</dt>
+                                            <dd className={`truncate ${value ? 'text-slate-300' : 'text-rose-400 italic'}`} title={value}>{value || 'missing'}</dd>
+                                        </div>
+                                    ))}
+                                </dl>
+                            </InfoCard>
+                        )}
+
                         {data.aeoOptimization?.paaQuestions && (
                             <InfoCard title="AEO (Voice/AI)">
                                 <ul className="space-y-2 mt-2">
@@ -157,6 +334,13 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({ data, onClose, onUpdat
                                         <p className="text-[9px] text-slate-500 uppercase font-black mb-1">Description</p>
                                         <p className="text-xs text-slate-300 leading-relaxed">{suggestion.description}</p>
                                     </div>
+                                    {suggestion.socialTitle && (
+                                        <div>
+                                            <p className="text-[9px] text-slate-500 uppercase font-black mb-1">Social (OG / Twitter)</p>
+                                            <p className="text-xs font-semibold text-sky-200 leading-snug">{suggestion.socialTitle}</p>
+                                            {suggestion.socialDescription && <p className="text-[11px] text-slate-400 leading-relaxed mt-0.5">{suggestion.socialDescription}</p>}
+                                        </div>
+                                    )}
                                 </div>
                                 {suggestion.expectedCtrLift && (
                                     <div className="mt-3 pt-3 border-t border-white/5 flex items-center gap-2">
@@ -169,7 +353,7 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({ data, onClose, onUpdat
                         
                         <div className="bg-white/5 p-4 rounded-xl border border-white/5">
                              <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-3 text-center">Live Preview</h4>
-                             <SerpPreview url={data.url} title={selectedSuggestion?.title ?? data.title} description={selectedSuggestion?.description ?? data.description} />
+                             <SerpPreview url={data.url} title={selectedSuggestion?.title ?? data.title} description={selectedSuggestion?.description ?? data.description} page={data} />
                         </div>
                     </div>
                 )}
@@ -0,0 +1,94 @@
+import React, { useMemo, useState } from 'react';
+import { SeoAnalysis } from '../types';
+import { findNearDuplicateClusters, DEFAULT_NEAR_DUPLICATE_THRESHOLD } from '../services/similarityService';
+
+interface NearDuplicatesPanelProps {
+    data: SeoAnalysis[];
+    onSelectUrl: (url: string) => void;
+}
+
+type DuplicateField = 'title' | 'description';
+
+const CLUSTERS_SHOWN = 25;
+
+export const NearDuplicatesPanel: React.FC<NearDuplicatesPanelProps> = ({ data, onSelectUrl }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [field, setField] = useState<DuplicateField>('title');
+    const [threshold, setThreshold] = useState(DEFAULT_NEAR_DUPLICATE_THRESHOLD);
+
+    // Only pages with real content; error and blocked pages have no meaningful title or description.
+    const pages = useMemo(() => data.filter(p => p.status !== 'blocked' && !p.quickScan?.isHttpError), [data]);
+
+    const clusters = useMemo(
+        () => isOpen ? findNearDuplicateClusters(pages.map(p => ({ url: p.url, text: p[field] })), threshold) : [],
+        [isOpen, pages, field, threshold]
+    );
+
+    const flaggedCount = useMemo(() => ({
+        title: pages.filter(p => p.quickScan?.isTitleNearDuplicate).length,
+        description: pages.filter(p => p.quickScan?.isDescriptionNearDuplicate).length,
+    }), [pages]);
+
+    if (flaggedCount.title === 0 && flaggedCount.description === 0) return null;
+
+    return (
+        <div className="mt-6 glass-panel rounded-2xl overflow-hidden">
+            <button onClick={() => setIsOpen(o => !o)} className="w-full flex items-center justify-between p-5 text-left hover:bg-white/5 transition-colors">
+                <div>
+                    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Near-Duplicate Titles & Descriptions</h3>
+                    <p className="text-sm text-slate-300 mt-1">
+                        <span className="text-amber-300 font-semibold">{flaggedCount.title}</span> pages with near-duplicate titles, <span className="text-amber-300 font-semibold">{flaggedCount.description}</span> with near-duplicate descriptions
+                    </p>
+                </div>
+                <span className="text-slate-500 text-xs font-bold">{isOpen ? 'Hide' : 'Show clusters'}</span>
+            </button>
+
+            {isOpen && (
+                <div className="px-5 pb-5 space-y-4">
+                    <div className="flex flex-wrap items-center gap-4">
+                        <div className="flex rounded-lg overflow-hidden border border-slate-700">
+                            {(['title', 'description'] as DuplicateField[]).map(f => (
+                                <button key={f} onClick={() => setField(f)}
+                                    className={`px-3 py-1.5 text-xs font-bold uppercase tracking-wide ${field === f ? 'bg-indigo-600 text-white' : 'bg-slate-900/60 text-slate-400 hover:text-white'}`}>
+                                    {f === 'title' ? 'Titles' : 'Descriptions'}
+                                </button>
+                            ))}
+                        </div>
+                        <label className="flex items-center gap-3 text-xs text-slate-400">
+                            Similarity ≥ <span className="font-mono text-white w-9">{Math.round(threshold * 100)}%</span>
+                            <input type="range" min={0.5} max={0.95} step={0.05} value={threshold} onChange={(e) => setThreshold(Number(e.target.value))} className="accent-indigo-500" />
+                        </label>
+                        <span className="text-xs text-slate-500">{clusters.length} clusters</span>
+                    </div>
+
+                    {clusters.length === 0 ? (
+                        <p className="text-sm text-slate-500 italic">No near-duplicate {field === 'title' ? 'titles' : 'descriptions'} at this threshold.</p>
+                    ) : (
+                        <div className="space-y-3 max-h-[420px] overflow-y-auto pr-1">
+                            {clusters.slice(0, CLUSTERS_SHOWN).map(cluster => (
+                                <div key={cluster.urls.join('|')} className="bg-slate-900/50 border border-slate-700/50 rounded-xl p-3">
+                                    <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2">
+                                        {cluster.urls.length} pages · min similarity {Math.round(cluster.minSimilarity * 100)}%
+                                    </p>
+                                    <ul className="space-y-1.5">
+                                        {cluster.urls.map((url, i) => (
+                                            <li key={url}>
+                                                <button onClick={() => onSelectUrl(url)} className="w-full text-left group">
+                                                    <p className="text-sm text-slate-200 group-hover:text-indigo-300 truncate">{cluster.texts[i]}</p>
+                                                    <p className="text-[10px] text-slate-500 font-mono truncate">{url}</p>
+                                                </button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            ))}
+                            {clusters.length > CLUSTERS_SHOWN && (
+                                <p className="text-xs text-slate-500 italic">Showing the {CLUSTERS_SHOWN} largest of {clusters.length} clusters.</p>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
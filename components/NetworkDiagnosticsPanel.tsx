@@ -0,0 +1,115 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { RouteHealth } from '../types';
+import { FetchError, getNetworkStats, getRecentFetchFailures, resetNetworkStats } from '../services/fetchService';
+
+const REFRESH_MS = 2000;
+
+const RouteStatus: React.FC<{ route: RouteHealth; now: number }> = ({ route, now }) => {
+    if (route.benchedUntil) {
+        return <span className="px-2 py-0.5 rounded-md bg-rose-500/20 text-rose-300 text-[10px] font-bold uppercase">Benched {Math.ceil((route.benchedUntil - now) / 1000)}s</span>;
+    }
+    if (route.preferred) {
+        return <span className="px-2 py-0.5 rounded-md bg-emerald-500/20 text-emerald-300 text-[10px] font-bold uppercase">Preferred</span>;
+    }
+    return null;
+};
+
+/**
+ * Live view of robustFetch's route health: which route each host prefers, success rates, latency and benched routes,
+ * plus the last requests that failed on every route.
+ */
+export const NetworkDiagnosticsPanel: React.FC = () => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [routes, setRoutes] = useState<RouteHealth[]>(getNetworkStats);
+    const [failures, setFailures] = useState<FetchError[]>(getRecentFetchFailures);
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => {
+        const id = setInterval(() => {
+            setRoutes(getNetworkStats());
+            setFailures(getRecentFetchFailures());
+            setNow(Date.now());
+        }, REFRESH_MS);
+        return () => clearInterval(id);
+    }, []);
+
+    const byHost = useMemo(() => {
+        const hosts = new Map<string, RouteHealth[]>();
+        routes.forEach(route => {
+            if (!hosts.has(route.host)) hosts.set(route.host, []);
+            hosts.get(route.host)!.push(route);
+        });
+        return [...hosts.entries()]
+            .map(([host, hostRoutes]) => ({ host, hostRoutes, attempts: hostRoutes.reduce((sum, r) => sum + r.successes + r.failures, 0) }))
+            .sort((a, b) => b.attempts - a.attempts);
+    }, [routes]);
+
+    if (routes.length === 0 && failures.length === 0) return null;
+
+    const requestCount = routes.reduce((sum, r) => sum + r.successes + r.failures, 0);
+    const failureCount = routes.reduce((sum, r) => sum + r.failures, 0);
+    const benchedCount = routes.filter(r => r.benchedUntil).length;
+
+    const handleReset = () => {
+        resetNetworkStats();
+        setRoutes([]);
+        setFailures([]);
+    };
+
+    return (
+        <div className="mt-6 glass-panel rounded-2xl overflow-hidden">
+            <button onClick={() => setIsOpen(o => !o)} className="w-full flex items-center justify-between p-5 text-left hover:bg-white/5 transition-colors">
+                <div>
+                    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Network Diagnostics</h3>
+                    <p className="text-sm text-slate-300 mt-1">
+                        {requestCount} attempts across {byHost.length} hosts, <span className="text-amber-300 font-semibold">{failureCount}</span> failed{benchedCount > 0 && <>, <span className="text-rose-300 font-semibold">{benchedCount}</span> routes benched</>}{failures.length > 0 && <>, <span className="text-rose-300 font-semibold">{failures.length}</span> recent requests gave up</>}
+                    </p>
+                </div>
+                <span className="text-slate-500 text-xs font-bold">{isOpen ? 'Hide' : 'Show routes'}</span>
+            </button>
+
+            {isOpen && (
+                <div className="px-5 pb-5 space-y-4 max-h-[420px] overflow-y-auto">
+                    {byHost.map(({ host, hostRoutes }) => (
+                        <div key={host}>
+                            <p className="text-xs font-mono text-slate-300 mb-1.5">{host}</p>
+                            <table className="w-full text-xs">
+                                <tbody>
+                                    {hostRoutes.map(route => {
+                                        const attempts = route.successes + route.failures;
+                                        return (
+                                            <tr key={route.routeId} className="border-t border-slate-700/50">
+                                                <td className="py-1.5 pr-3 text-slate-200 whitespace-nowrap">{route.routeName}</td>
+                                                <td className="py-1.5 pr-3"><RouteStatus route={route} now={now} /></td>
+                                                <td className="py-1.5 pr-3 text-slate-400 font-mono whitespace-nowrap">{Math.round((route.successes / attempts) * 100)}% of {attempts}</td>
+                                                <td className="py-1.5 pr-3 text-slate-400 font-mono whitespace-nowrap">{route.latencyMs !== null ? `${route.latencyMs} ms` : '–'}</td>
+                                                <td className="py-1.5 text-slate-500 truncate max-w-[240px]" title={route.lastError}>{route.lastError}</td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    ))}
+                    {failures.length > 0 && (
+                        <div>
+                            <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1.5">Recent failures</p>
+                            <ul className="space-y-1.5">
+                                {failures.map((failure, i) => (
+                                    <li key={i} className="text-xs">
+                                        <span className={`mr-2 px-1.5 py-0.5 rounded text-[10px] font-bold uppercase ${failure.kind === 'http' ? 'bg-amber-500/20 text-amber-300' : 'bg-rose-500/20 text-rose-300'}`}>
+                                            {failure.kind === 'http' ? failure.status : failure.kind}
+                                        </span>
+                                        <span className="text-slate-300">{failure.message}</span>
+                                        <p className="text-[10px] text-slate-500 font-mono truncate">{failure.url}</p>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    <button onClick={handleReset} className="text-xs text-slate-400 hover:text-white">Forget learned routes</button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { FetchProxy } from '../types';
+import { DEFAULT_PROXIES, getProxies, saveProxies } from '../services/fetchService';
+
+interface ProxySettingsProps {
+    isDisabled: boolean;
+}
+
+const inputClass = "px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-white text-sm";
+
+const Toggle: React.FC<{ label: string; checked: boolean; onChange: (checked: boolean) => void; disabled: boolean }> = ({ label, checked, onChange, disabled }) => (
+    <label className="flex items-center gap-1.5 text-xs text-slate-400 cursor-pointer">
+        <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} disabled={disabled} className="h-3.5 w-3.5 rounded border-slate-500 bg-slate-700 text-indigo-600" />
+        {label}
+    </label>
+);
+
+/**
+ * Editor for the CORS proxies robustFetch falls back to after a direct request fails. Proxies are tried
+ * top to bottom, and each can be limited to page crawling or also allowed for API calls. Requests carrying
+ * API keys or passwords only go through proxies marked trusted.
+ */
+export const ProxySettings: React.FC<ProxySettingsProps> = ({ isDisabled }) => {
+    const [proxies, setProxies] = useState<FetchProxy[]>(getProxies);
+    const [name, setName] = useState('');
+    const [endpoint, setEndpoint] = useState('');
+    const [type, setType] = useState<FetchProxy['type']>('query_param');
+
+    const update = (next: FetchProxy[]) => {
+        setProxies(next);
+        saveProxies(next);
+    };
+
+    const patch = (id: string, changes: Partial<FetchProxy>) => update(proxies.map(p => p.id === id ? { ...p, ...changes } : p));
+
+    const move = (index: number, offset: number) => {
+        const next = [...proxies];
+        const [proxy] = next.splice(index, 1);
+        next.splice(index + offset, 0, proxy);
+        update(next);
+    };
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!endpoint.trim()) return;
+        update([...proxies, {
+            id: `proxy-${Date.now()}`,
+            name: name.trim() || endpoint.trim(),
+            endpoint: endpoint.trim(),
+            type,
+            enabled: true,
+            useForCrawl: true,
+            useForApi: false,
+            trusted: false,
+        }]);
+        setName('');
+        setEndpoint('');
+    };
+
+    const trustedCount = proxies.filter(p => p.enabled && p.trusted).length;
+
+    return (
+        <details className="bg-slate-800/50 p-6 rounded-xl border border-slate-700 shadow-lg">
+            <summary className="cursor-pointer text-xl font-semibold text-slate-200">Fetch Proxies</summary>
+            <p className="text-slate-400 mt-1 text-sm">
+                Requests go direct first, then through these CORS proxies in order. Requests carrying API keys or WordPress credentials are only sent through proxies marked trusted; mark only proxies you control.
+                Run <code className="font-mono text-indigo-300">npm run proxy</code> to self-host one.
+            </p>
+
+            <ul className="mt-4 space-y-2">
+                {proxies.map((proxy, index) => (
+                    <li key={proxy.id} className={`flex flex-col md:flex-row md:items-center gap-3 p-3 bg-slate-800 rounded-lg border border-slate-600 ${proxy.enabled ? '' : 'opacity-60'}`}>
+                        <div className="flex items-center gap-1">
+                            <button onClick={() => move(index, -1)} disabled={isDisabled || index === 0} className="px-1.5 text-slate-400 hover:text-white disabled:opacity-30" title="Move up">▲</button>
+                            <button onClick={() => move(index, 1)} disabled={isDisabled || index === proxies.length - 1} className="px-1.5 text-slate-400 hover:text-white disabled:opacity-30" title="Move down">▼</button>
+                        </div>
+                        <div className="min-w-0 flex-grow">
+                            <p className="font-semibold text-white text-sm truncate">{proxy.name}</p>
+                            <p className="text-xs text-slate-400 font-mono truncate">{proxy.endpoint}{proxy.type === 'query_param' ? '<encoded url>' : '<url>'}</p>
+                        </div>
+                        <div className="flex items-center gap-4">
+                            <Toggle label="Enabled" checked={proxy.enabled} onChange={(enabled) => patch(proxy.id, { enabled })} disabled={isDisabled} />
+                            <Toggle label="Crawl" checked={proxy.useForCrawl} onChange={(useForCrawl) => patch(proxy.id, { useForCrawl })} disabled={isDisabled} />
+                            <Toggle label="API calls" checked={proxy.useForApi} onChange={(useForApi) => patch(proxy.id, { useForApi })} disabled={isDisabled} />
+                            <Toggle label="Trusted" checked={!!proxy.trusted} onChange={(trusted) => patch(proxy.id, { trusted })} disabled={isDisabled} />
+                            <button onClick={() => update(proxies.filter(p => p.id !== proxy.id))} disabled={isDisabled}
+                                className="px-3 py-1.5 text-xs font-semibold text-red-300 bg-red-800/50 hover:bg-red-800 rounded-md disabled:opacity-50">
+                                Remove
+                            </button>
+                        </div>
+                    </li>
+                ))}
+                {proxies.length === 0 && <li className="text-sm text-slate-500 italic">No proxies: every request goes direct.</li>}
+            </ul>
+
+            {trustedCount > 0 && (
+                <p className="mt-3 text-xs text-amber-400">{trustedCount} {trustedCount === 1 ? 'proxy is' : 'proxies are'} trusted with your API keys and WordPress credentials. Make sure you control {trustedCount === 1 ? 'it' : 'them'}.</p>
+            )}
+
+            <form onSubmit={handleAdd} className="mt-4 grid grid-cols-1 md:grid-cols-4 gap-3">
+                <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name (optional)" disabled={isDisabled} className={inputClass} />
+                <input value={endpoint} onChange={(e) => setEndpoint(e.target.value)} placeholder="http://localhost:8787/?url=" disabled={isDisabled} className={`${inputClass} md:col-span-2 font-mono`} />
+                <select value={type} onChange={(e) => setType(e.target.value as FetchProxy['type'])} disabled={isDisabled} className={inputClass}>
+                    <option value="query_param">Encoded URL appended</option>
+                    <option value="prefix">Raw URL appended</option>
+                </select>
+                <div className="md:col-span-4 flex justify-between">
+                    <button type="button" onClick={() => update(DEFAULT_PROXIES)} disabled={isDisabled} className="text-xs text-slate-400 hover:text-white disabled:opacity-50">Reset to defaults</button>
+                    <button type="submit" disabled={isDisabled || !endpoint.trim()}
+                        className="px-5 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-500 disabled:bg-slate-500 disabled:cursor-not-allowed transition-colors text-sm">
+                        Add Proxy
+                    </button>
+                </div>
+            </form>
+        </details>
+    );
+};
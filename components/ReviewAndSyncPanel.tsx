@@ -1,8 +1,9 @@
 
 import React, { useState, useMemo } from 'react';
-import { SeoAnalysis, AiConfig } from '../types';
+import { SeoAnalysis, AiConfig, SocialMetaUpdate } from '../types';
 import { Spinner } from './common/Spinner';
 import { getSemanticDiff } from '../services/aiService';
+import { getSocialUpdate } from '../services/wordpressService';
 
 interface ReviewItemProps {
     page: SeoAnalysis;
@@ -100,7 +101,7 @@ const ReviewItem: React.FC<ReviewItemProps> = ({ page, isChecked, onToggle, onDi
 
 interface ReviewAndSyncPanelProps {
     pages: SeoAnalysis[];
-    onSync: (items: { url: string; title: string; description: string }[]) => Promise<void>;
+    onSync: (items: { url: string; title: string; description: string; social?: SocialMetaUpdate }[]) => Promise<void>;
     isSyncing: boolean;
     syncError: string | null;
     onDiscard: (url: string) => void;
@@ -133,7 +134,7 @@ export const ReviewAndSyncPanel: React.FC<ReviewAndSyncPanelProps> = ({ pages, o
     const handleSync = () => {
         const itemsToUpdate = pages
             .filter(p => selectedUrls.has(p.url) && p.pendingSuggestion)
-            .map(p => ({ url: p.url, title: p.pendingSuggestion!.title, description: p.pendingSuggestion!.description }));
+            .map(p => ({ url: p.url, title: p.pendingSuggestion!.title, description: p.pendingSuggestion!.description, social: getSocialUpdate(p.pendingSuggestion!) }));
         
         if (itemsToUpdate.length > 0) {
             onSync(itemsToUpdate);
@@ -4,9 +4,33 @@ import { SeoAnalysis } from '../types';
 import { GradeBadge } from './common/GradeBadge';
 import { Spinner } from './common/Spinner';
 
-type SortKey = 'priority' | 'grade' | 'url';
+type SortKey = 'priority' | 'grade' | 'url' | 'lastmod';
 type SortDirection = 'asc' | 'desc';
 
+// Missing values sort as the lowest possible value so they group at one end.
+const getSortValue = (item: SeoAnalysis, key: SortKey): number | string => {
+    switch (key) {
+        case 'priority': return item.priorityScore ?? -1;
+        case 'grade': return item.grade ?? -1;
+        case 'lastmod': {
+            const time = item.sitemapMeta?.lastmod ? Date.parse(item.sitemapMeta.lastmod) : NaN;
+            return isNaN(time) ? -1 : time;
+        }
+        case 'url': return item.url;
+    }
+};
+
+const formatLastmod = (lastmod?: string) => {
+    const time = lastmod ? Date.parse(lastmod) : NaN;
+    return isNaN(time) ? null : new Date(time).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+};
+
+const SortHeader: React.FC<{ label: string; sortKey: SortKey; sort: { key: SortKey; dir: SortDirection }; onSort: (key: SortKey) => void; className?: string }> = ({ label, sortKey, sort, onSort, className }) => (
+    <button onClick={() => onSort(sortKey)} className={`uppercase tracking-widest hover:text-slate-300 transition-colors ${sort.key === sortKey ? 'text-indigo-300' : ''} ${className || ''}`}>
+        {label}{sort.key === sortKey && (sort.dir === 'asc' ? ' ▲' : ' ▼')}
+    </button>
+);
+
 const StatusBadge: React.FC<{ status: SeoAnalysis['status'] }> = ({ status }) => {
     switch (status) {
         case 'analyzing':
@@ -19,6 +43,8 @@ const StatusBadge: React.FC<{ status: SeoAnalysis['status'] }> = ({ status }) =>
             return <span className="flex items-center text-[10px] font-bold uppercase tracking-wider text-amber-400"><Spinner /> Updating</span>;
         case 'error':
             return <span className="flex items-center text-[10px] font-bold uppercase tracking-wider text-rose-500">Error</span>;
+        case 'blocked':
+            return <span className="text-[10px] font-bold uppercase tracking-wider text-rose-400" title="Listed in the sitemap but disallowed by robots.txt">Blocked</span>;
         case 'scanned':
              return <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400">Ready</span>;
         default:
@@ -72,10 +98,14 @@ export const SeoDataTable: React.FC<SeoDataTableProps> = ({
         }
     }, []);
 
+    const handleSort = (key: SortKey) => {
+        setSort(prev => ({ key, dir: prev.key === key && prev.dir === 'desc' ? 'asc' : 'desc' }));
+    };
+
     const sortedData = useMemo(() => {
         return [...data].sort((a, b) => {
-            const aVal = a[sort.key] ?? (sort.key === 'priority' || sort.key === 'grade' ? -1 : '');
-            const bVal = b[sort.key] ?? (sort.key === 'priority' || sort.key === 'grade' ? -1 : '');
+            const aVal = getSortValue(a, sort.key);
+            const bVal = getSortValue(b, sort.key);
             if (aVal < bVal) return sort.dir === 'asc' ? -1 : 1;
             if (aVal > bVal) return sort.dir === 'asc' ? 1 : -1;
             return 0;
@@ -117,7 +147,7 @@ export const SeoDataTable: React.FC<SeoDataTableProps> = ({
             {/* Desktop Header - Hidden on Mobile */}
             <div className="p-4 border-b border-white/5 bg-slate-900/40 hidden lg:block z-20">
                  <div className="grid grid-cols-12 gap-4 text-[10px] font-bold text-slate-500 uppercase tracking-widest items-center">
-                    <div className="col-span-6 flex items-center gap-4">
+                    <div className="col-span-5 flex items-center gap-4">
                         {onSelectAll && (
                             <input 
                                 type="checkbox" 
@@ -126,11 +156,12 @@ export const SeoDataTable: React.FC<SeoDataTableProps> = ({
                                 className="h-4 w-4 rounded bg-slate-800 border-slate-600 text-indigo-500 focus:ring-indigo-500/50 cursor-pointer transition-all"
                             />
                         )}
-                        <span>URL / Title</span>
+                        <SortHeader label="URL / Title" sortKey="url" sort={sort} onSort={handleSort} />
                     </div>
-                    <div className="col-span-2 text-center">Priority</div>
-                    <div className="col-span-1 text-center">Grade</div>
-                    <div className="col-span-3 text-right pr-2">Status</div>
+                    <div className="col-span-2 text-center"><SortHeader label="Priority" sortKey="priority" sort={sort} onSort={handleSort} /></div>
+                    <div className="col-span-1 text-center"><SortHeader label="Grade" sortKey="grade" sort={sort} onSort={handleSort} /></div>
+                    <div className="col-span-2 text-center"><SortHeader label="Modified" sortKey="lastmod" sort={sort} onSort={handleSort} /></div>
+                    <div className="col-span-2 text-right pr-2">Status</div>
                 </div>
             </div>
             
@@ -208,6 +239,9 @@ export const SeoDataTable: React.FC<SeoDataTableProps> = ({
                                     <div className="hidden lg:flex col-span-1 justify-center w-16">
                                         {item.grade !== undefined ? <GradeBadge grade={item.grade} /> : <span className="text-slate-700 text-xs">-</span>}
                                     </div>
+                                    <div className="hidden lg:flex col-span-2 justify-center w-24">
+                                        {formatLastmod(item.sitemapMeta?.lastmod) ? <span className="text-xs text-slate-400 font-mono whitespace-nowrap" title={item.sitemapMeta!.lastmod}>{formatLastmod(item.sitemapMeta?.lastmod)}</span> : <span className="text-slate-700 text-xs">-</span>}
+                                    </div>
                                     <div className="hidden lg:flex col-span-3 justify-end w-32">
                                         <StatusBadge status={item.status} />
                                     </div>
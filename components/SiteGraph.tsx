@@ -0,0 +1,358 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { SeoAnalysis } from '../types';
+import { ForceLayout } from '../services/forceLayoutService';
+import { normalizeUrl } from '../services/urlNormalizationService';
+
+interface SiteGraphProps {
+    pages: SeoAnalysis[];
+    activeUrl: string | null;
+    onSelectNode: (url: string) => void;
+}
+
+interface GraphModel {
+    edges: [number, number][];
+    linkEdgeCount: number; // Edges before this index are real links, the rest are AI suggestions
+    groups: number[];
+    topics: { topic: string; count: number }[]; // Sorted by size, index = group
+}
+
+const NO_TOPIC = 'Unclustered';
+const LEGEND_SIZE = 8;
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 8;
+const CLICK_TOLERANCE_PX = 4;
+
+const nodeRadius = (page: SeoAnalysis) => 3 + ((page.priorityScore ?? 0) / 100) * 9;
+
+const topicColor = (topic: string) => {
+    if (topic === NO_TOPIC) return 'hsl(215, 16%, 47%)';
+    let hash = 0;
+    for (let i = 0; i < topic.length; i++) hash = (hash * 31 + topic.charCodeAt(i)) | 0;
+    return `hsl(${Math.abs(hash) % 360}, 70%, 60%)`;
+};
+
+function buildGraphModel(pages: SeoAnalysis[]): GraphModel {
+    const indexByUrl = new Map(pages.map((p, i) => [p.url, i]));
+
+    const counts = new Map<string, number>();
+    pages.forEach(p => counts.set(p.topic || NO_TOPIC, (counts.get(p.topic || NO_TOPIC) ?? 0) + 1));
+    const topics = Array.from(counts, ([topic, count]) => ({ topic, count })).sort((a, b) => b.count - a.count);
+    const groupByTopic = new Map(topics.map((t, i) => [t.topic, i]));
+    const groups = pages.map(p => groupByTopic.get(p.topic || NO_TOPIC)!);
+
+    // One undirected edge per page pair; a real link wins over a suggestion for the same pair.
+    const seen = new Set<string>();
+    const collect = (targetsOf: (page: SeoAnalysis) => string[]) => {
+        const edges: [number, number][] = [];
+        pages.forEach((page, source) => {
+            targetsOf(page).forEach(url => {
+                const target = indexByUrl.get(url);
+                if (target === undefined || target === source) return;
+                const key = source < target ? `${source}-${target}` : `${target}-${source}`;
+                if (seen.has(key)) return;
+                seen.add(key);
+                edges.push([source, target]);
+            });
+        });
+        return edges;
+    };
+    const linkEdges = collect(page => page.outboundLinks?.map(l => l.url) ?? []);
+    const suggestionEdges = collect(page => page.internalLinkSuggestions?.map(s => normalizeUrl(s.targetUrl)) ?? []);
+
+    return { edges: [...linkEdges, ...suggestionEdges], linkEdgeCount: linkEdges.length, groups, topics };
+}
+
+/**
+ * Force-directed map of the crawled site: one node per page, coloured by topic and sized by priority,
+ * joined by internal links (solid) and suggested links (dashed). Drawn on a canvas so a few thousand
+ * nodes stay interactive; the simulation stops once the layout settles.
+ */
+export const SiteGraph: React.FC<SiteGraphProps> = ({ pages, activeUrl, onSelectNode }) => {
+    const [showLinks, setShowLinks] = useState(true);
+    const [showSuggestions, setShowSuggestions] = useState(true);
+
+    const containerRef = useRef<HTMLDivElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const layoutRef = useRef<ForceLayout | null>(null);
+    const viewRef = useRef({ x: 0, y: 0, scale: 1, autoFit: true });
+    const hoverRef = useRef(-1);
+    const frameRef = useRef<number | null>(null);
+    const drawRef = useRef<() => void>(() => {});
+
+    const model = useMemo(() => buildGraphModel(pages), [pages]);
+    const radii = useMemo(() => pages.map(nodeRadius), [pages]);
+    const colors = useMemo(() => model.groups.map(g => topicColor(model.topics[g].topic)), [model]);
+    const activeIndex = useMemo(() => pages.findIndex(p => p.url === activeUrl), [pages, activeUrl]);
+
+    const fitToView = useCallback(() => {
+        const layout = layoutRef.current;
+        const canvas = canvasRef.current;
+        if (!layout || !canvas || pages.length === 0) return;
+        let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+        for (let i = 0; i < pages.length; i++) {
+            minX = Math.min(minX, layout.x[i]); maxX = Math.max(maxX, layout.x[i]);
+            minY = Math.min(minY, layout.y[i]); maxY = Math.max(maxY, layout.y[i]);
+        }
+        const width = canvas.clientWidth, height = canvas.clientHeight;
+        const scale = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.min(width / (maxX - minX + 40), height / (maxY - minY + 40))));
+        viewRef.current = { x: width / 2 - ((minX + maxX) / 2) * scale, y: height / 2 - ((minY + maxY) / 2) * scale, scale, autoFit: viewRef.current.autoFit };
+    }, [pages.length]);
+
+    const draw = useCallback(() => {
+        const layout = layoutRef.current;
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!layout || !canvas || !ctx) return;
+
+        const dpr = window.devicePixelRatio || 1;
+        const { x: panX, y: panY, scale } = viewRef.current;
+        ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+        ctx.clearRect(0, 0, canvas.clientWidth, canvas.clientHeight);
+        ctx.setTransform(dpr * scale, 0, 0, dpr * scale, dpr * panX, dpr * panY);
+
+        // Edges are batched into one path per style; per-edge strokes are far too slow at this size.
+        const strokeEdges = (from: number, to: number, color: string, dash: number[]) => {
+            if (from >= to) return;
+            ctx.beginPath();
+            for (let e = from; e < to; e++) {
+                const [a, b] = model.edges[e];
+                ctx.moveTo(layout.x[a], layout.y[a]);
+                ctx.lineTo(layout.x[b], layout.y[b]);
+            }
+            ctx.strokeStyle = color;
+            ctx.lineWidth = 1 / scale;
+            ctx.setLineDash(dash.map(d => d / scale));
+            ctx.stroke();
+        };
+        if (showLinks) strokeEdges(0, model.linkEdgeCount, 'rgba(148, 163, 184, 0.18)', []);
+        if (showSuggestions) strokeEdges(model.linkEdgeCount, model.edges.length, 'rgba(129, 140, 248, 0.55)', [4, 3]);
+        ctx.setLineDash([]);
+
+        for (let i = 0; i < pages.length; i++) {
+            ctx.beginPath();
+            ctx.arc(layout.x[i], layout.y[i], radii[i], 0, Math.PI * 2);
+            ctx.fillStyle = colors[i];
+            ctx.fill();
+        }
+
+        const ring = (i: number, color: string) => {
+            ctx.beginPath();
+            ctx.arc(layout.x[i], layout.y[i], radii[i] + 3 / scale, 0, Math.PI * 2);
+            ctx.strokeStyle = color;
+            ctx.lineWidth = 2 / scale;
+            ctx.stroke();
+        };
+        if (activeIndex >= 0) ring(activeIndex, '#ffffff');
+
+        const hovered = hoverRef.current;
+        if (hovered >= 0 && hovered < pages.length) {
+            ring(hovered, '#a5b4fc');
+            const page = pages[hovered];
+            const label = page.title || page.url;
+            ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+            ctx.font = '12px sans-serif';
+            const sx = layout.x[hovered] * scale + panX + radii[hovered] * scale + 6;
+            const sy = layout.y[hovered] * scale + panY;
+            const width = ctx.measureText(label).width;
+            ctx.fillStyle = 'rgba(15, 23, 42, 0.9)';
+            ctx.fillRect(sx - 4, sy - 10, width + 8, 20);
+            ctx.fillStyle = '#e2e8f0';
+            ctx.fillText(label, sx, sy + 4);
+        }
+    }, [model, pages, radii, colors, activeIndex, showLinks, showSuggestions]);
+    drawRef.current = draw;
+
+    // Runs the simulation until it settles, then drops back to drawing on demand.
+    const startLoop = useCallback(() => {
+        if (frameRef.current !== null) return;
+        const step = () => {
+            const layout = layoutRef.current;
+            if (!layout) { frameRef.current = null; return; }
+            layout.tick();
+            if (viewRef.current.autoFit) fitToView();
+            drawRef.current();
+            frameRef.current = layout.isSettled ? null : requestAnimationFrame(step);
+        };
+        frameRef.current = requestAnimationFrame(step);
+    }, [fitToView]);
+
+    const requestDraw = useCallback(() => {
+        if (frameRef.current === null) requestAnimationFrame(() => drawRef.current());
+    }, []);
+
+    // Rebuild the layout whenever pages or edges change, keeping the positions of pages already placed
+    // so results streaming in during an analysis don't scramble the graph.
+    const placedUrlsRef = useRef<string[]>([]);
+    useEffect(() => {
+        const edges = model.edges.slice(0, model.linkEdgeCount).concat(showSuggestions ? model.edges.slice(model.linkEdgeCount) : []);
+        const layout = new ForceLayout(pages.length, edges, model.groups);
+        const previous = layoutRef.current;
+        if (previous) {
+            const previousIndex = new Map(placedUrlsRef.current.map((url, i) => [url, i]));
+            let kept = 0;
+            pages.forEach((page, i) => {
+                const j = previousIndex.get(page.url);
+                if (j === undefined) return;
+                layout.x[i] = previous.x[j];
+                layout.y[i] = previous.y[j];
+                kept++;
+            });
+            if (kept > pages.length / 2) layout.alpha = 0.3;
+        }
+        layoutRef.current = layout;
+        placedUrlsRef.current = pages.map(p => p.url);
+        startLoop();
+        return () => {
+            if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+            frameRef.current = null;
+        };
+    }, [model, pages, showSuggestions, startLoop]);
+
+    useEffect(() => { requestDraw(); }, [draw, requestDraw]);
+
+    // Keep the canvas backing store in step with its CSS size and the device pixel ratio.
+    useEffect(() => {
+        const container = containerRef.current;
+        const canvas = canvasRef.current;
+        if (!container || !canvas) return;
+        const observer = new ResizeObserver(() => {
+            const dpr = window.devicePixelRatio || 1;
+            canvas.width = Math.round(container.clientWidth * dpr);
+            canvas.height = Math.round(container.clientHeight * dpr);
+            if (viewRef.current.autoFit) fitToView();
+            requestDraw();
+        });
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, [fitToView, requestDraw]);
+
+    const toWorld = (clientX: number, clientY: number) => {
+        const rect = canvasRef.current!.getBoundingClientRect();
+        const { x, y, scale } = viewRef.current;
+        return { x: (clientX - rect.left - x) / scale, y: (clientY - rect.top - y) / scale };
+    };
+
+    const hitTest = (clientX: number, clientY: number): number => {
+        const layout = layoutRef.current;
+        if (!layout) return -1;
+        const point = toWorld(clientX, clientY);
+        const slack = 3 / viewRef.current.scale;
+        let best = -1, bestDist = Infinity;
+        for (let i = 0; i < pages.length; i++) {
+            const dx = layout.x[i] - point.x, dy = layout.y[i] - point.y;
+            const dist = Math.sqrt(dx * dx + dy * dy);
+            if (dist <= radii[i] + slack && dist < bestDist) { best = i; bestDist = dist; }
+        }
+        return best;
+    };
+
+    const dragRef = useRef<{ node: number; startX: number; startY: number; lastX: number; lastY: number; moved: boolean } | null>(null);
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { node: hitTest(e.clientX, e.clientY), startX: e.clientX, startY: e.clientY, lastX: e.clientX, lastY: e.clientY, moved: false };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const drag = dragRef.current;
+        if (!drag) {
+            const hovered = hitTest(e.clientX, e.clientY);
+            if (hovered !== hoverRef.current) {
+                hoverRef.current = hovered;
+                e.currentTarget.style.cursor = hovered >= 0 ? 'pointer' : 'grab';
+                requestDraw();
+            }
+            return;
+        }
+        if (!drag.moved && Math.hypot(e.clientX - drag.startX, e.clientY - drag.startY) < CLICK_TOLERANCE_PX) return;
+        drag.moved = true;
+        viewRef.current.autoFit = false;
+        const layout = layoutRef.current;
+        if (drag.node >= 0 && layout) {
+            const point = toWorld(e.clientX, e.clientY);
+            layout.pin(drag.node, point.x, point.y);
+            layout.reheat();
+            startLoop();
+        } else {
+            viewRef.current.x += e.clientX - drag.lastX;
+            viewRef.current.y += e.clientY - drag.lastY;
+            requestDraw();
+        }
+        drag.lastX = e.clientX;
+        drag.lastY = e.clientY;
+    };
+
+    const handlePointerUp = () => {
+        const drag = dragRef.current;
+        dragRef.current = null;
+        layoutRef.current?.unpin();
+        if (drag && !drag.moved && drag.node >= 0) onSelectNode(pages[drag.node].url);
+    };
+
+    // Zoom around the cursor. Registered natively because React's wheel listener is passive.
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const view = viewRef.current;
+            const rect = canvas.getBoundingClientRect();
+            const mx = e.clientX - rect.left, my = e.clientY - rect.top;
+            const scale = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.scale * Math.exp(-e.deltaY * 0.0015)));
+            view.x = mx - ((mx - view.x) / view.scale) * scale;
+            view.y = my - ((my - view.y) / view.scale) * scale;
+            view.scale = scale;
+            view.autoFit = false;
+            requestDraw();
+        };
+        canvas.addEventListener('wheel', handleWheel, { passive: false });
+        return () => canvas.removeEventListener('wheel', handleWheel);
+    }, [requestDraw]);
+
+    const suggestionCount = model.edges.length - model.linkEdgeCount;
+
+    return (
+        <div className="glass-panel rounded-2xl h-full min-h-[600px] flex flex-col overflow-hidden">
+            <div className="p-4 border-b border-white/5 bg-slate-900/30 flex flex-wrap items-center gap-4 text-xs text-slate-400">
+                <span><span className="text-white font-semibold">{pages.length}</span> pages</span>
+                <label className="flex items-center gap-1.5 cursor-pointer">
+                    <input type="checkbox" checked={showLinks} onChange={(e) => setShowLinks(e.target.checked)} className="h-3 w-3 rounded border-slate-500 bg-slate-700 text-indigo-600" />
+                    Internal links ({model.linkEdgeCount})
+                </label>
+                <label className="flex items-center gap-1.5 cursor-pointer">
+                    <input type="checkbox" checked={showSuggestions} onChange={(e) => setShowSuggestions(e.target.checked)} className="h-3 w-3 rounded border-slate-500 bg-slate-700 text-indigo-600" />
+                    Suggested links ({suggestionCount})
+                </label>
+                <button onClick={() => { viewRef.current.autoFit = true; fitToView(); requestDraw(); }} className="ml-auto px-2.5 py-1 rounded-md bg-slate-900/60 border border-slate-700 text-slate-300 hover:text-white font-bold uppercase tracking-wide text-[10px]">
+                    Fit
+                </button>
+            </div>
+
+            <div ref={containerRef} className="relative flex-grow">
+                <canvas
+                    ref={canvasRef}
+                    className="absolute inset-0 w-full h-full touch-none"
+                    style={{ cursor: 'grab' }}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerLeave={() => { if (hoverRef.current >= 0) { hoverRef.current = -1; requestDraw(); } }}
+                />
+                {pages.length === 0 && (
+                    <p className="absolute inset-0 flex items-center justify-center text-sm text-slate-500 italic">No pages to show.</p>
+                )}
+                <div className="absolute bottom-3 left-3 bg-slate-900/80 rounded-lg p-2.5 space-y-1 pointer-events-none max-w-[220px]">
+                    {model.topics.slice(0, LEGEND_SIZE).map(t => (
+                        <div key={t.topic} className="flex items-center gap-2 text-[10px] text-slate-300">
+                            <span className="h-2.5 w-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: topicColor(t.topic) }} />
+                            <span className="truncate">{t.topic}</span>
+                            <span className="ml-auto font-mono text-slate-500">{t.count}</span>
+                        </div>
+                    ))}
+                    {model.topics.length > LEGEND_SIZE && <p className="text-[10px] text-slate-500">+{model.topics.length - LEGEND_SIZE} more topics</p>}
+                    <p className="text-[10px] text-slate-500 pt-1 border-t border-white/5">Node size = priority score</p>
+                </div>
+            </div>
+        </div>
+    );
+};
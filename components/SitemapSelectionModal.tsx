@@ -0,0 +1,106 @@
+import React, { useMemo, useState } from 'react';
+
+type SitemapKind = 'post' | 'page' | 'product' | 'category' | 'other';
+
+interface SitemapSelectionModalProps {
+    sitemaps: string[];
+    onConfirm: (selected: string[]) => void;
+    onCancel: () => void; // Stops the scan
+}
+
+const kindLabels: Record<SitemapKind, string> = {
+    post: 'Posts',
+    page: 'Pages',
+    product: 'Products',
+    category: 'Categories & Tags',
+    other: 'Other',
+};
+
+// Guesses what a child sitemap contains from its file name (Yoast, Rank Math, WooCommerce and core WP naming).
+const getSitemapKind = (url: string): SitemapKind => {
+    const name = url.toLowerCase().split('/').pop() || '';
+    if (/product/.test(name)) return 'product';
+    if (/categor|tag|taxonom|author/.test(name)) return 'category';
+    if (/post|blog|article|news/.test(name)) return 'post';
+    if (/page/.test(name)) return 'page';
+    return 'other';
+};
+
+export const SitemapSelectionModal: React.FC<SitemapSelectionModalProps> = ({ sitemaps, onConfirm, onCancel }) => {
+    const [selected, setSelected] = useState<Set<string>>(new Set(sitemaps));
+
+    const groups = useMemo(() => {
+        const byKind = new Map<SitemapKind, string[]>();
+        sitemaps.forEach(url => {
+            const kind = getSitemapKind(url);
+            byKind.set(kind, [...(byKind.get(kind) || []), url]);
+        });
+        return (Object.keys(kindLabels) as SitemapKind[])
+            .filter(kind => byKind.has(kind))
+            .map(kind => ({ kind, urls: byKind.get(kind)! }));
+    }, [sitemaps]);
+
+    const toggle = (urls: string[], checked: boolean) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            urls.forEach(url => checked ? next.add(url) : next.delete(url));
+            return next;
+        });
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-[100] p-4">
+            <div className="bg-slate-800 rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col">
+                <div className="p-6 border-b border-slate-700">
+                    <h2 className="text-xl font-bold text-white">Choose Sitemaps to Scan</h2>
+                    <p className="text-sm text-slate-400 mt-1">This site's sitemap index lists {sitemaps.length} child sitemaps. Only the selected ones will be downloaded and scanned.</p>
+                </div>
+
+                <div className="p-6 space-y-5 overflow-y-auto">
+                    {groups.map(({ kind, urls }) => {
+                        const checkedCount = urls.filter(url => selected.has(url)).length;
+                        return (
+                            <div key={kind}>
+                                <label className="flex items-center gap-2 text-sm font-semibold text-slate-200 mb-2 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={checkedCount === urls.length}
+                                        onChange={(e) => toggle(urls, e.target.checked)}
+                                        className="h-4 w-4 rounded border-slate-500 bg-slate-700 text-indigo-600 focus:ring-indigo-500"
+                                    />
+                                    {kindLabels[kind]} <span className="text-slate-500 font-normal">({checkedCount}/{urls.length})</span>
+                                </label>
+                                <div className="pl-6 space-y-1">
+                                    {urls.map(url => (
+                                        <label key={url} className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer hover:text-slate-200">
+                                            <input
+                                                type="checkbox"
+                                                checked={selected.has(url)}
+                                                onChange={(e) => toggle([url], e.target.checked)}
+                                                className="h-3.5 w-3.5 rounded border-slate-500 bg-slate-700 text-indigo-600 focus:ring-indigo-500"
+                                            />
+                                            <span className="font-mono truncate" title={url}>{url}</span>
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="p-6 flex justify-end gap-4 border-t border-slate-700 bg-slate-800/50 rounded-b-xl">
+                    <button type="button" onClick={onCancel} className="mr-auto px-4 py-2 text-slate-300 font-semibold rounded-lg hover:bg-slate-700 transition-colors">Cancel Scan</button>
+                    <button type="button" onClick={() => onConfirm(sitemaps)} className="px-4 py-2 bg-slate-600 text-white font-semibold rounded-lg hover:bg-slate-500 transition-colors">Scan All</button>
+                    <button
+                        type="button"
+                        onClick={() => onConfirm(sitemaps.filter(url => selected.has(url)))}
+                        disabled={selected.size === 0}
+                        className="px-6 py-2 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-500 disabled:bg-slate-500 disabled:cursor-not-allowed transition-colors"
+                    >
+                        Scan Selected ({selected.size})
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,10 +1,13 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { Spinner } from './common/Spinner';
+import { CrawlMode, CrawlOptions, CrawlScope, UrlNormalization } from '../types';
+import { loadCrawlScope, saveCrawlScope, findInvalidScopeRules, isScopeEmpty } from '../services/urlScopeService';
+import { getUrlNormalization, saveUrlNormalization, DEFAULT_URL_NORMALIZATION } from '../services/urlNormalizationService';
 
 interface UrlInputProps {
-    onCrawl: (url: string, sitemapUrl?: string, targetLocation?: string) => void;
-    onProcessFile: (file: File, targetLocation?: string) => void;
+    onCrawl: (url: string, sitemapUrl?: string, targetLocation?: string, crawlOptions?: CrawlOptions) => void;
+    onProcessFile: (file: File, targetLocation?: string, scope?: CrawlScope) => void;
     isLoading: boolean;
     isApiConfigured: boolean;
 }
@@ -34,11 +37,47 @@ export const UrlInput: React.FC<UrlInputProps> = ({ onCrawl, onProcessFile, isLo
     const [sitemapUrl, setSitemapUrl] = useState('');
     const [selectedFile, setSelectedFile] = useState<File | null>(null);
     const [targetLocation, setTargetLocation] = useState('');
+    const [crawlMode, setCrawlMode] = useState<CrawlMode>('auto');
+    const [maxDepth, setMaxDepth] = useState(3);
+    const [maxPages, setMaxPages] = useState(500);
+    const [includeRules, setIncludeRules] = useState('');
+    const [excludeRules, setExcludeRules] = useState('');
+    const [normalization, setNormalization] = useState<UrlNormalization>(DEFAULT_URL_NORMALIZATION);
+
+    const siteHost = useMemo(() => {
+        try { return new URL(url).hostname.replace(/^www\./, ''); } catch { return ''; }
+    }, [url]);
+
+    // Restore the scope and URL normalisation saved for this site whenever the target site changes.
+    useEffect(() => {
+        if (!siteHost) return;
+        const saved = loadCrawlScope(url);
+        setIncludeRules(saved.include.join('\n'));
+        setExcludeRules(saved.exclude.join('\n'));
+        setNormalization(getUrlNormalization(url));
+    }, [siteHost]);
+
+    const scope: CrawlScope = useMemo(() => ({
+        include: includeRules.split('\n'),
+        exclude: excludeRules.split('\n'),
+    }), [includeRules, excludeRules]);
+    const scopeErrors = useMemo(() => findInvalidScopeRules(scope), [scope]);
+    const scopeRuleCount = scope.include.concat(scope.exclude).filter(r => r.trim()).length;
+
+    const updateNormalization = (patch: Partial<UrlNormalization>) => setNormalization(prev => ({ ...prev, ...patch }));
+
+    const commitScope = (): CrawlScope | undefined => {
+        if (siteHost) {
+            saveCrawlScope(url, scope);
+            saveUrlNormalization(url, normalization);
+        }
+        return isScopeEmpty(scope) ? undefined : scope;
+    };
 
     const handleCrawlSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        if (url && !isLoading && isApiConfigured) {
-            onCrawl(url, sitemapUrl || undefined, targetLocation || undefined);
+        if (url && !isLoading && isApiConfigured && scopeErrors.length === 0) {
+            onCrawl(url, sitemapUrl || undefined, targetLocation || undefined, { mode: crawlMode, maxDepth, maxPages, scope: commitScope() });
         }
     };
 
@@ -50,8 +89,8 @@ export const UrlInput: React.FC<UrlInputProps> = ({ onCrawl, onProcessFile, isLo
 
     const handleProcessFileSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        if (selectedFile && !isLoading && isApiConfigured) {
-            onProcessFile(selectedFile, targetLocation || undefined);
+        if (selectedFile && !isLoading && isApiConfigured && scopeErrors.length === 0) {
+            onProcessFile(selectedFile, targetLocation || undefined, commitScope());
         }
     };
     
@@ -67,6 +106,77 @@ export const UrlInput: React.FC<UrlInputProps> = ({ onCrawl, onProcessFile, isLo
     }, []);
 
 
+    const scopeEditor = (
+        <details className="group/scope bg-slate-900/40 border border-slate-700/50 rounded-xl" open={scopeRuleCount > 0}>
+            <summary className="px-5 py-3 cursor-pointer text-xs font-bold text-slate-400 uppercase tracking-wider select-none">
+                Crawl Scope {scopeRuleCount > 0 && <span className="text-indigo-300 normal-case font-semibold">({scopeRuleCount} rules)</span>}
+                {siteHost && <span className="ml-2 text-slate-600 normal-case font-normal">saved for {siteHost}</span>}
+            </summary>
+            <div className="px-5 pb-5 space-y-4">
+                <p className="text-xs text-slate-500">
+                    One rule per line, matched against the path and query. Globs like <code className="text-slate-300">/blog/**</code> or <code className="text-slate-300">/tag/</code> match from the start of the path when they begin with "/", anywhere otherwise; prefix a line with <code className="text-slate-300">re:</code> for a regular expression.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                        <label htmlFor="includeRules" className="text-xs font-bold text-slate-400 uppercase tracking-wider ml-1">Only Include</label>
+                        <textarea id="includeRules" rows={3} value={includeRules} onChange={(e) => setIncludeRules(e.target.value)} placeholder="/blog/**"
+                            className="w-full px-4 py-3 bg-slate-900/60 border border-slate-700/50 rounded-xl focus:outline-none focus:border-indigo-500/80 focus:ring-1 focus:ring-indigo-500/50 transition-all text-white placeholder-slate-600 font-mono text-sm shadow-inner"
+                            disabled={isLoading} />
+                    </div>
+                    <div className="space-y-2">
+                        <label htmlFor="excludeRules" className="text-xs font-bold text-slate-400 uppercase tracking-wider ml-1">Exclude</label>
+                        <textarea id="excludeRules" rows={3} value={excludeRules} onChange={(e) => setExcludeRules(e.target.value)} placeholder={'/tag/\n/author/\n?replytocom='}
+                            className="w-full px-4 py-3 bg-slate-900/60 border border-slate-700/50 rounded-xl focus:outline-none focus:border-indigo-500/80 focus:ring-1 focus:ring-indigo-500/50 transition-all text-white placeholder-slate-600 font-mono text-sm shadow-inner"
+                            disabled={isLoading} />
+                    </div>
+                </div>
+                {scopeErrors.length > 0 && (
+                    <div className="text-xs text-red-400 space-y-1">
+                        {scopeErrors.map(err => <p key={err}>Invalid rule {err}</p>)}
+                    </div>
+                )}
+            </div>
+        </details>
+    );
+
+    const normalizationEditor = (
+        <details className="bg-slate-900/40 border border-slate-700/50 rounded-xl">
+            <summary className="px-5 py-3 cursor-pointer text-xs font-bold text-slate-400 uppercase tracking-wider select-none">
+                URL Normalisation
+                {siteHost && <span className="ml-2 text-slate-600 normal-case font-normal">saved for {siteHost}</span>}
+            </summary>
+            <div className="px-5 pb-5 space-y-4">
+                <p className="text-xs text-slate-500">Variants that normalise to the same URL are scanned and analysed once, and reported as duplicates. Each page is still fetched at the URL it was found under.</p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <select aria-label="Protocol" value={normalization.protocol} onChange={(e) => updateNormalization({ protocol: e.target.value as UrlNormalization['protocol'] })} className="w-full px-4 py-3 bg-slate-900/60 border border-slate-700/50 rounded-xl focus:outline-none focus:border-indigo-500/80 focus:ring-1 focus:ring-indigo-500/50 transition-all text-white text-sm shadow-inner" disabled={isLoading}>
+                        <option value="keep">Keep protocol</option>
+                        <option value="https">Treat http and https as one</option>
+                    </select>
+                    <select aria-label="Host" value={normalization.host} onChange={(e) => updateNormalization({ host: e.target.value as UrlNormalization['host'] })} className="w-full px-4 py-3 bg-slate-900/60 border border-slate-700/50 rounded-xl focus:outline-none focus:border-indigo-500/80 focus:ring-1 focus:ring-indigo-500/50 transition-all text-white text-sm shadow-inner" disabled={isLoading}>
+                        <option value="keep">Keep www as found</option>
+                        <option value="www">Always www</option>
+                        <option value="non-www">Never www</option>
+                    </select>
+                    <select aria-label="Trailing slash" value={normalization.trailingSlash} onChange={(e) => updateNormalization({ trailingSlash: e.target.value as UrlNormalization['trailingSlash'] })} className="w-full px-4 py-3 bg-slate-900/60 border border-slate-700/50 rounded-xl focus:outline-none focus:border-indigo-500/80 focus:ring-1 focus:ring-indigo-500/50 transition-all text-white text-sm shadow-inner" disabled={isLoading}>
+                        <option value="keep">Keep trailing slash</option>
+                        <option value="add">Add trailing slash</option>
+                        <option value="remove">Remove trailing slash</option>
+                    </select>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-center">
+                    <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                        <input type="checkbox" checked={normalization.stripTrackingParams} onChange={(e) => updateNormalization({ stripTrackingParams: e.target.checked })}
+                            className="h-4 w-4 rounded border-slate-500 bg-slate-700 text-indigo-600 focus:ring-indigo-500" disabled={isLoading} />
+                        Strip tracking parameters (utm_*, gclid, fbclid…)
+                    </label>
+                    <input type="text" aria-label="Ignored parameters" value={normalization.ignoredParams.join(', ')} placeholder="Also ignore: replytocom, sessionid"
+                        onChange={(e) => updateNormalization({ ignoredParams: e.target.value.split(',').map(p => p.trim()) })}
+                        className="w-full px-4 py-3 bg-slate-900/60 border border-slate-700/50 rounded-xl focus:outline-none focus:border-indigo-500/80 focus:ring-1 focus:ring-indigo-500/50 transition-all text-white text-sm shadow-inner placeholder-slate-600 font-mono" disabled={isLoading} />
+                </div>
+            </div>
+        </details>
+    );
+
     return (
         <div className="mt-8 mb-24 relative z-10 flex flex-col items-center">
             {/* Artistic SOTA Hero Section */}
@@ -140,9 +250,35 @@ export const UrlInput: React.FC<UrlInputProps> = ({ onCrawl, onProcessFile, isLo
                                 <label htmlFor="sitemapUrl" className="text-xs font-bold text-slate-400 uppercase tracking-wider ml-1">Sitemap URL (Optional)</label>
                                 <input id="sitemapUrl" type="text" value={sitemapUrl} onChange={(e) => setSitemapUrl(e.target.value)} placeholder="Auto-detect if empty"
                                     className="w-full px-5 py-4 bg-slate-900/60 border border-slate-700/50 rounded-xl focus:outline-none focus:border-indigo-500/80 focus:ring-1 focus:ring-indigo-500/50 transition-all text-white placeholder-slate-600 shadow-inner"
-                                    disabled={isLoading} />
+                                    disabled={isLoading || crawlMode === 'links'} />
                             </div>
-                            <button type="submit" disabled={isLoading || !url || !isApiConfigured}
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                                <div className="space-y-2">
+                                    <label htmlFor="crawlMode" className="text-xs font-bold text-slate-400 uppercase tracking-wider ml-1">Discovery Mode</label>
+                                    <select id="crawlMode" value={crawlMode} onChange={(e) => setCrawlMode(e.target.value as CrawlMode)}
+                                        className="w-full px-5 py-4 bg-slate-900/60 border border-slate-700/50 rounded-xl focus:outline-none focus:border-indigo-500/80 focus:ring-1 focus:ring-indigo-500/50 transition-all text-white shadow-inner"
+                                        disabled={isLoading}>
+                                        <option value="auto">Sitemap, then links</option>
+                                        <option value="sitemap">Sitemap only</option>
+                                        <option value="links">Follow links only</option>
+                                    </select>
+                                </div>
+                                <div className="space-y-2">
+                                    <label htmlFor="maxDepth" className="text-xs font-bold text-slate-400 uppercase tracking-wider ml-1">Max Link Depth</label>
+                                    <input id="maxDepth" type="number" min={1} max={10} value={maxDepth} onChange={(e) => setMaxDepth(Math.max(1, Number(e.target.value) || 1))}
+                                        className="w-full px-5 py-4 bg-slate-900/60 border border-slate-700/50 rounded-xl focus:outline-none focus:border-indigo-500/80 focus:ring-1 focus:ring-indigo-500/50 transition-all text-white shadow-inner"
+                                        disabled={isLoading || crawlMode === 'sitemap'} />
+                                </div>
+                                <div className="space-y-2">
+                                    <label htmlFor="maxPages" className="text-xs font-bold text-slate-400 uppercase tracking-wider ml-1">Max Pages</label>
+                                    <input id="maxPages" type="number" min={1} value={maxPages} onChange={(e) => setMaxPages(Math.max(1, Number(e.target.value) || 1))}
+                                        className="w-full px-5 py-4 bg-slate-900/60 border border-slate-700/50 rounded-xl focus:outline-none focus:border-indigo-500/80 focus:ring-1 focus:ring-indigo-500/50 transition-all text-white shadow-inner"
+                                        disabled={isLoading || crawlMode === 'sitemap'} />
+                                </div>
+                            </div>
+                            {scopeEditor}
+                            {normalizationEditor}
+                            <button type="submit" disabled={isLoading || !url || !isApiConfigured || scopeErrors.length > 0}
                                 className="w-full flex items-center justify-center px-6 py-5 bg-gradient-to-r from-indigo-600 via-violet-600 to-purple-600 text-white text-lg font-bold rounded-xl shadow-[0_10px_40px_rgba(79,70,229,0.3)] hover:shadow-[0_10px_50px_rgba(79,70,229,0.5)] hover:scale-[1.01] active:scale-[0.99] disabled:opacity-50 disabled:shadow-none disabled:cursor-not-allowed transition-all duration-300 group/btn"
                                 title={!isApiConfigured ? 'Configure API key first' : 'Initialize Agent'}>
                                 {isLoading ? <Spinner /> : <span className="group-hover/btn:tracking-widest transition-all duration-300">Initialize Quantum Audit</span>}
@@ -176,7 +312,10 @@ export const UrlInput: React.FC<UrlInputProps> = ({ onCrawl, onProcessFile, isLo
                                     disabled={isLoading} />
                              </div>
                                 
-                             <button type="submit" disabled={isLoading || !selectedFile || !isApiConfigured}
+                             {scopeEditor}
+                             {normalizationEditor}
+                                
+                             <button type="submit" disabled={isLoading || !selectedFile || !isApiConfigured || scopeErrors.length > 0}
                                 className="w-full flex items-center justify-center px-6 py-5 bg-gradient-to-r from-purple-600 via-fuchsia-600 to-pink-600 text-white text-lg font-bold rounded-xl shadow-[0_10px_40px_rgba(192,38,211,0.3)] hover:shadow-[0_10px_50px_rgba(192,38,211,0.5)] hover:scale-[1.01] active:scale-[0.99] disabled:opacity-50 disabled:shadow-none disabled:cursor-not-allowed transition-all duration-300"
                                 title={!isApiConfigured ? 'Configure API key first' : 'Process file'}>
                                 {isLoading ? <Spinner /> : 'Ingest Data & Begin Analysis'}
@@ -29,11 +29,12 @@ export const WordPressCredsModal: React.FC<WordPressCredsModalProps> = ({ onSave
     const [siteUrl, setSiteUrl] = useState(getInitialSiteUrl(initialUrl));
     const [username, setUsername] = useState('');
     const [appPassword, setAppPassword] = useState('');
+    const [schemaMetaKey, setSchemaMetaKey] = useState('');
 
     const handleSave = (e: React.FormEvent) => {
         e.preventDefault();
         if (siteUrl && username && appPassword) {
-            onSave({ siteUrl, username, appPassword });
+            onSave({ siteUrl, username, appPassword, schemaMetaKey: schemaMetaKey.trim() || undefined });
         }
     };
 
@@ -89,6 +90,21 @@ export const WordPressCredsModal: React.FC<WordPressCredsModalProps> = ({ onSave
                             </p>
                         </div>
 
+                        <div>
+                            <label htmlFor="schemaMetaKey" className="block text-sm font-medium text-slate-300 mb-1">Schema Meta Field (Optional)</label>
+                            <input
+                                id="schemaMetaKey"
+                                type="text"
+                                value={schemaMetaKey}
+                                onChange={(e) => setSchemaMetaKey(e.target.value)}
+                                placeholder="e.g. _custom_schema_json"
+                                className="w-full px-4 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-white"
+                            />
+                            <p className="text-xs text-slate-400 mt-2">
+                                Only if your theme or a snippet outputs this post meta field as JSON-LD. Required to push generated schema.
+                            </p>
+                        </div>
+
                         <div className="p-4 bg-sky-900/50 border border-sky-500/50 rounded-lg text-sky-200 text-sm">
                             <h4 className="font-semibold text-sky-300 flex items-center gap-2 mb-2">
                                 <InfoIcon />
@@ -1,48 +1,177 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { SeoData } from '../../types';
+import { truncateForSerp, SerpDevice, SerpTruncation } from '../../services/pixelWidthService';
 
 interface SerpPreviewProps {
     url: string;
     title: string;
     description: string;
+    device?: SerpDevice;
+    page?: SeoData; // Supplies the favicon, site name, publish date and JSON-LD for rich results
 }
 
+const MAX_FAQ_ROWS = 3;
+
+interface RatingMockup {
+    value: number;
+    best: number;
+    count?: number;
+}
+
+// Only complete JSON-LD items qualify for rich results.
+const validItems = (page?: SeoData) => page?.structuredData?.items.filter(item => item.missingProperties.length === 0) ?? [];
+
+// Google prefixes snippets with the publish date of articles.
+function getPublishDate(page?: SeoData): Date | null {
+    const raw = validItems(page).find(item => item.node.datePublished)?.node.datePublished ?? page?.socialMeta?.articlePublishedTime;
+    const date = raw ? new Date(raw) : null;
+    return date && !isNaN(date.getTime()) ? date : null;
+}
+
+function getFaqQuestions(page?: SeoData): string[] {
+    const faq = validItems(page).find(item => item.type === 'FAQPage')?.node;
+    if (!faq) return [];
+    const questions: unknown[] = Array.isArray(faq.mainEntity) ? faq.mainEntity : [faq.mainEntity];
+    return questions
+        .map(q => typeof q === 'object' && q && 'name' in q ? q.name : undefined)
+        .filter((name): name is string => typeof name === 'string' && !!name);
+}
+
+function getRating(page?: SeoData): RatingMockup | null {
+    const rating = validItems(page).map(item => item.node.aggregateRating).find(r => r && r.ratingValue !== undefined);
+    if (!rating) return null;
+    const value = parseFloat(rating.ratingValue);
+    if (isNaN(value)) return null;
+    const count = parseInt(rating.reviewCount ?? rating.ratingCount, 10);
+    return { value, best: parseFloat(rating.bestRating) || 5, count: isNaN(count) ? undefined : count };
+}
+
+const getSiteName = (page: SeoData | undefined, hostname: string) => {
+    if (page?.socialMeta?.ogSiteName) return page.socialMeta.ogSiteName;
+    const label = hostname.replace(/^www\./, '').split('.')[0] || hostname;
+    return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+const Stars: React.FC<{ rating: RatingMockup }> = ({ rating }) => {
+    const filled = Math.round((rating.value / rating.best) * 5);
+    return <span className="text-amber-400 tracking-tighter">{'★'.repeat(filled)}<span className="text-slate-500">{'★'.repeat(5 - filled)}</span></span>;
+};
+
+const WidthMeter: React.FC<{ label: string; truncation: SerpTruncation }> = ({ label, truncation }) => (
+    <span className={truncation.truncated ? 'text-rose-400' : 'text-slate-500'} title={truncation.truncated ? `Cut: "${truncation.hidden.trim()}"` : undefined}>
+        {label}: {truncation.widthPx}/{truncation.maxWidthPx}px
+    </span>
+);
+
 /**
- * A component that visually simulates how a title and description would appear in Google Search Results.
+ * A component that visually simulates how a title and description would appear in Google Search Results
+ * on desktop or mobile, truncated by pixel width the way Google cuts them.
  */
-export const SerpPreview: React.FC<SerpPreviewProps> = ({ url, title, description }) => {
-    
+export const SerpPreview: React.FC<SerpPreviewProps> = ({ url, title, description, device, page }) => {
+    const [activeDevice, setActiveDevice] = useState<SerpDevice>(device ?? 'desktop');
+    const [showRichResults, setShowRichResults] = useState(true);
+    const [faviconFailed, setFaviconFailed] = useState(false);
+
+    let urlObj: URL | null = null;
+    try { urlObj = new URL(url); } catch { /* shown as plain text below */ }
+
     // Formats the URL into a breadcrumb-style display for the preview.
     const formatDisplayUrl = (fullUrl: string) => {
-        try {
-            const urlObj = new URL(fullUrl);
-            const pathParts = urlObj.pathname.split('/').filter(part => part && part.trim() !== '');
-            let displayUrl = urlObj.hostname.replace(/^www\./, '');
-            if (pathParts.length > 0) {
-                displayUrl += ` › ${pathParts.join(' › ')}`;
-            }
-            return displayUrl;
-        } catch (e) {
-            // Fallback for invalid URLs
-            return url.replace(/^https?:\/\//, '').replace(/\/$/, '');
+        if (!urlObj) return fullUrl.replace(/^https?:\/\//, '').replace(/\/$/, '');
+        const pathParts = urlObj.pathname.split('/').filter(part => part && part.trim() !== '');
+        let displayUrl = urlObj.origin;
+        if (pathParts.length > 0) {
+            displayUrl += ` › ${pathParts.join(' › ')}`;
         }
+        return displayUrl;
     };
 
+    const titleText = title || "Your SEO Title Will Appear Here";
+    const descriptionText = description || "This preview shows how your meta description will look in search results. Make it descriptive and engaging to attract more clicks.";
+
+    const publishDate = getPublishDate(page);
+    const datePrefix = publishDate ? `${publishDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })} — ` : '';
+    const faqQuestions = getFaqQuestions(page);
+    const rating = getRating(page);
+    const hasRichResults = faqQuestions.length > 0 || !!rating;
+
+    const titleTruncation = truncateForSerp(titleText, 'title', activeDevice);
+    // The date prefix takes up part of the description's width, so it is measured together with it.
+    const snippetTruncation = truncateForSerp(datePrefix + descriptionText, 'description', activeDevice);
+    const descriptionTruncation: SerpTruncation = { ...snippetTruncation, visible: snippetTruncation.visible.slice(datePrefix.length) };
+
+    const hostname = urlObj?.hostname ?? '';
+    const faviconSrc = page?.faviconUrl || (urlObj ? `${urlObj.origin}/favicon.ico` : '');
+    useEffect(() => setFaviconFailed(false), [faviconSrc]);
+
     return (
         <div className="p-4 font-sans text-left">
-            {/* URL Display */}
-            <div className="text-sm text-gray-700 dark:text-slate-400 truncate">
-                {formatDisplayUrl(url)}
+            <div className="flex items-center justify-between mb-3">
+                <div className="flex rounded-md overflow-hidden border border-slate-700 text-[10px] font-bold uppercase tracking-wide">
+                    {(['desktop', 'mobile'] as SerpDevice[]).map(d => (
+                        <button key={d} onClick={() => setActiveDevice(d)}
+                            className={`px-2.5 py-1 ${activeDevice === d ? 'bg-indigo-600 text-white' : 'bg-slate-900/60 text-slate-400 hover:text-white'}`}>
+                            {d}
+                        </button>
+                    ))}
+                </div>
+                {hasRichResults && (
+                    <label className="flex items-center gap-1.5 text-[10px] text-slate-400 cursor-pointer">
+                        <input type="checkbox" checked={showRichResults} onChange={(e) => setShowRichResults(e.target.checked)} className="h-3 w-3 rounded border-slate-500 bg-slate-700 text-indigo-600" />
+                        Rich results
+                    </label>
+                )}
+            </div>
+
+            <div className={activeDevice === 'mobile' ? 'max-w-[360px] bg-slate-900/40 rounded-xl p-3' : ''}>
+                {/* Favicon and site name */}
+                <div className="flex items-center gap-2.5">
+                    <div className="h-7 w-7 rounded-full bg-white flex items-center justify-center overflow-hidden flex-shrink-0 border border-slate-300/20">
+                        {faviconSrc && !faviconFailed
+                            ? <img src={faviconSrc} alt="" className="h-4 w-4" onError={() => setFaviconFailed(true)} />
+                            : <span className="text-[11px] font-bold text-slate-700">{hostname.replace(/^www\./, '').charAt(0).toUpperCase()}</span>}
+                    </div>
+                    <div className="min-w-0">
+                        <div className="text-sm text-gray-800 dark:text-slate-200 leading-tight truncate">{getSiteName(page, hostname)}</div>
+                        <div className="text-xs text-gray-600 dark:text-slate-400 leading-tight truncate">{formatDisplayUrl(url)}</div>
+                    </div>
+                </div>
+
+                {/* Clickable Title */}
+                <h3 className={`${activeDevice === 'mobile' ? 'text-base' : 'text-xl'} text-blue-700 dark:text-blue-400 font-normal hover:underline cursor-pointer mt-1.5 break-words`}>
+                    {titleTruncation.visible}{titleTruncation.truncated && ' ...'}
+                </h3>
+
+                {/* Meta Description */}
+                <p className="text-sm text-gray-600 dark:text-slate-300 mt-1 break-words">
+                    {datePrefix && <span className="text-gray-500 dark:text-slate-500">{datePrefix}</span>}
+                    {descriptionTruncation.visible}{descriptionTruncation.truncated && ' ...'}
+                </p>
+
+                {showRichResults && rating && (
+                    <div className="text-sm text-gray-600 dark:text-slate-400 mt-1 flex items-center gap-1.5">
+                        <Stars rating={rating} />
+                        <span>Rating: {rating.value}</span>
+                        {rating.count !== undefined && <span>· {rating.count.toLocaleString()} reviews</span>}
+                    </div>
+                )}
+
+                {showRichResults && faqQuestions.length > 0 && (
+                    <div className="mt-2 border-t border-slate-700/60">
+                        {faqQuestions.slice(0, MAX_FAQ_ROWS).map(question => (
+                            <div key={question} className="flex items-center justify-between py-2 border-b border-slate-700/60 text-sm text-gray-700 dark:text-slate-300">
+                                <span className="truncate pr-3">{question}</span>
+                                <span className="text-slate-500 text-xs">▾</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="flex gap-4 mt-3 text-[10px] font-mono">
+                <WidthMeter label="Title" truncation={titleTruncation} />
+                <WidthMeter label="Description" truncation={snippetTruncation} />
             </div>
-            
-            {/* Clickable Title */}
-            <h3 className="text-lg text-blue-700 dark:text-blue-400 font-medium hover:underline cursor-pointer truncate mt-1">
-                {title || "Your SEO Title Will Appear Here"}
-            </h3>
-            
-            {/* Meta Description */}
-            <p className="text-sm text-gray-600 dark:text-slate-300 line-clamp-2 mt-1">
-                {description || "This preview shows how your meta description will look in search results. Make it descriptive and engaging to attract more clicks."}
-            </p>
         </div>
     );
 };
@@ -0,0 +1,182 @@
+// proxy/corsProxy.mjs
+// A minimal CORS proxy for the app's "query_param" proxy type: GET /?url=<encoded target URL>.
+// Mounted on the Vite dev server at /cors-proxy, or run standalone with `npm run proxy`.
+//
+// Environment (standalone):
+//   PROXY_PORT             Port to listen on (default 8787)
+//   PROXY_HOST             Interface to bind (default 127.0.0.1). Any other address requires PROXY_TOKEN.
+//   PROXY_TOKEN            When set, requests must carry ?token=<value>, e.g. endpoint http://host:8787/?token=secret&url=
+//   PROXY_ALLOWED_ORIGINS  Comma-separated origins allowed to call the proxy (default: the dev server, http://localhost:3000)
+//   PROXY_ALLOW_PRIVATE    Set to 1 to allow private, loopback and link-local targets, e.g. an intranet WordPress
+import http from 'node:http';
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import { pathToFileURL } from 'node:url';
+
+// Hop-by-hop and browser-controlled headers that must not be forwarded.
+const STRIPPED_REQUEST_HEADERS = new Set(['host', 'origin', 'referer', 'connection', 'content-length', 'accept-encoding', 'cookie']);
+// Node's fetch already decompressed the body, so length and encoding no longer match.
+const STRIPPED_RESPONSE_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding', 'connection', 'set-cookie', 'location']);
+const MAX_REDIRECTS = 10;
+// Covers every hop and the body, so a target that stops answering doesn't hold the connection open.
+const UPSTREAM_TIMEOUT_MS = 30000;
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', '::1', 'localhost']);
+
+// Addresses a page on the open web has no business reaching through the developer's machine.
+const PRIVATE_ADDRESSES = new BlockList();
+[['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16]]
+    .forEach(([net, prefix]) => PRIVATE_ADDRESSES.addSubnet(net, prefix, 'ipv4'));
+[['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10]]
+    .forEach(([net, prefix]) => PRIVATE_ADDRESSES.addSubnet(net, prefix, 'ipv6'));
+
+const LOOPBACK_ADDRESSES = new BlockList();
+LOOPBACK_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+LOOPBACK_ADDRESSES.addAddress('::1', 'ipv6');
+
+const ipType = (address) => isIP(address) === 6 ? 'ipv6' : 'ipv4';
+const isPrivateAddress = (address) => PRIVATE_ADDRESSES.check(address, ipType(address));
+const isLoopbackAddress = (address) => isIP(address) !== 0 && LOOPBACK_ADDRESSES.check(address, ipType(address));
+
+class ForbiddenTargetError extends Error {
+    constructor(message) {
+        super(message);
+        this.name = 'ForbiddenTargetError';
+    }
+}
+
+/** Rejects hosts that resolve to a private, loopback or link-local address. */
+async function assertPublicTarget(url) {
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    const addresses = isIP(hostname) ? [hostname] : (await lookup(hostname, { all: true })).map(a => a.address);
+    if (addresses.some(isPrivateAddress)) {
+        throw new ForbiddenTargetError(`${url.hostname} resolves to a private address; set PROXY_ALLOW_PRIVATE=1 to allow it`);
+    }
+}
+
+const readBody = (req) => new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+});
+
+/**
+ * Creates a Node/Connect request handler that forwards ?url= to the target and adds CORS headers.
+ * Browsers may only call it from `allowedOrigins` or from the origin it is served on. Redirects are followed
+ * hop by hop so every hop gets the same target check, and reported in X-Redirect-Hops as [{ url, status }].
+ * @param {{ token?: string; allowedOrigins?: string[]; loopbackClientsOnly?: boolean; allowPrivateTargets?: boolean }} [options]
+ */
+export function createProxyHandler(options = {}) {
+    const { token, allowedOrigins = [], loopbackClientsOnly = false, allowPrivateTargets = false } = options;
+
+    return async (req, res) => {
+        if (loopbackClientsOnly && !isLoopbackAddress(req.socket.remoteAddress || '')) {
+            res.writeHead(403).end('Set PROXY_TOKEN to use the proxy from another machine');
+            return;
+        }
+        const origin = req.headers.origin;
+        if (origin) {
+            let sameOrigin = false;
+            try { sameOrigin = new URL(origin).host === req.headers.host; } catch { /* malformed Origin */ }
+            if (!sameOrigin && !allowedOrigins.includes(origin)) {
+                res.writeHead(403).end('Origin not allowed');
+                return;
+            }
+            res.setHeader('Access-Control-Allow-Origin', origin);
+            res.setHeader('Vary', 'Origin');
+            res.setHeader('Access-Control-Expose-Headers', '*');
+        }
+
+        if (req.method === 'OPTIONS') {
+            res.writeHead(204, {
+                'Access-Control-Allow-Methods': 'GET, HEAD, POST, PUT, PATCH, DELETE',
+                'Access-Control-Allow-Headers': req.headers['access-control-request-headers'] || '*',
+                'Access-Control-Max-Age': '600',
+            }).end();
+            return;
+        }
+
+        const params = new URL(req.url || '/', 'http://proxy.local').searchParams;
+        if (token && params.get('token') !== token) {
+            res.writeHead(401).end('Missing or invalid proxy token');
+            return;
+        }
+
+        let target;
+        try {
+            target = new URL(params.get('url') || '');
+        } catch {
+            res.writeHead(400).end('Expected ?url=<absolute http(s) URL>');
+            return;
+        }
+
+        const headers = {};
+        for (const [name, value] of Object.entries(req.headers)) {
+            if (!STRIPPED_REQUEST_HEADERS.has(name) && typeof value === 'string') headers[name] = value;
+        }
+
+        try {
+            let method = req.method;
+            let body = method !== 'GET' && method !== 'HEAD' ? await readBody(req) : undefined;
+            let upstream;
+            const hops = [];
+            const signal = AbortSignal.timeout(UPSTREAM_TIMEOUT_MS);
+            for (let hop = 0; ; hop++) {
+                if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+                    throw new ForbiddenTargetError('Only http and https URLs can be proxied');
+                }
+                if (!allowPrivateTargets) await assertPublicTarget(target);
+                upstream = await fetch(target, { method, headers, body, redirect: 'manual', signal });
+                const location = upstream.headers.get('location');
+                if (upstream.status < 300 || upstream.status >= 400 || !location || hop === MAX_REDIRECTS) break;
+
+                const next = new URL(location, target);
+                hops.push({ url: target.href, status: upstream.status });
+                // Same rules as a browser: credentials stay on their origin, and 303 (or 301/302 after POST) becomes GET.
+                if (next.origin !== target.origin) delete headers.authorization;
+                if (upstream.status === 303 || ((upstream.status === 301 || upstream.status === 302) && method === 'POST')) {
+                    method = 'GET';
+                    body = undefined;
+                }
+                target = next;
+            }
+            // Read the whole body first: once headers are sent, a failed read can no longer become a 502.
+            const responseBody = req.method === 'HEAD' ? undefined : Buffer.from(await upstream.arrayBuffer());
+            upstream.headers.forEach((value, name) => {
+                if (!STRIPPED_RESPONSE_HEADERS.has(name)) res.setHeader(name, value);
+            });
+            // Lets the app see each redirect and where they ended, which the browser can't tell through a proxy.
+            res.setHeader('X-Final-Url', target.href);
+            res.setHeader('X-Redirect-Hops', JSON.stringify(hops));
+            res.writeHead(upstream.status);
+            res.end(responseBody);
+        } catch (error) {
+            if (res.headersSent) {
+                res.destroy(error);
+                return;
+            }
+            if (error instanceof ForbiddenTargetError) res.writeHead(403).end(error.message);
+            else if (error.name === 'TimeoutError') res.writeHead(504).end(`Upstream did not answer within ${UPSTREAM_TIMEOUT_MS / 1000}s`);
+            else res.writeHead(502).end(`Upstream request failed: ${error.message}`);
+        }
+    };
+}
+
+// Standalone server when run directly: node proxy/corsProxy.mjs
+if (import.meta.url === pathToFileURL(process.argv[1] || '').href) {
+    const port = Number(process.env.PROXY_PORT) || 8787;
+    const host = process.env.PROXY_HOST || '127.0.0.1';
+    const token = process.env.PROXY_TOKEN || undefined;
+    if (!token && !LOOPBACK_HOSTS.has(host)) {
+        console.error(`Refusing to listen on ${host} without PROXY_TOKEN: anyone who can reach it could use your network.`);
+        process.exit(1);
+    }
+    const handler = createProxyHandler({
+        token,
+        allowedOrigins: (process.env.PROXY_ALLOWED_ORIGINS || 'http://localhost:3000,http://127.0.0.1:3000').split(',').map(o => o.trim()).filter(Boolean),
+        allowPrivateTargets: process.env.PROXY_ALLOW_PRIVATE === '1',
+    });
+    http.createServer(handler).listen(port, host, () => {
+        console.log(`CORS proxy listening on http://${host}:${port}/?url=`);
+    });
+}
@@ -1,5 +1,6 @@
 import { AiConfig, SeoAnalysis, SeoData, RewriteSuggestion, SerpResult } from '../types';
 import { AnalysisResult, RateLimitError, runFullAnalysisAndSuggestion } from './aiService';
+import { SensitiveRequestBlockedError } from './fetchService';
 
 type ProgressCallback = (progress: { completed: number; total: number; activeWorkers: number }) => void;
 export type ResultCallback = (result: { url: string; data: { analysis: AnalysisResult; suggestions: RewriteSuggestion[] } }) => void;
@@ -21,9 +22,11 @@ export class AILoadBalancer {
     private totalJobs = 0;
     private completedJobs = 0;
     private analysisContext: { allPages: SeoData[], targetLocation?: string } = { allPages: [] };
+    private signal?: AbortSignal;
     
     // Optimization: Index pages by topic for O(1) Graph RAG lookup
     private topicIndex = new Map<string, { url: string; title: string; intent: string }[]>();
+    private pageIndex = new Map<string, { url: string; title: string; intent: string }>();
 
     private onProgressCallback: ProgressCallback = () => {};
     private onResultCallback: ResultCallback = () => {};
@@ -37,30 +40,39 @@ export class AILoadBalancer {
     public onResult(callback: ResultCallback) { this.onResultCallback = callback; }
     public onError(callback: ErrorCallback) { this.onErrorCallback = callback; }
 
-    public async processQueue(jobs: Job[], context?: { allPages: SeoData[], targetLocation?: string }): Promise<void> {
+    /**
+     * Runs every job across the workers. When `signal` aborts, queued jobs are dropped, in-flight requests are
+     * cancelled and the promise resolves once no worker is busy; results already reported stay reported.
+     */
+    public async processQueue(jobs: Job[], context?: { allPages: SeoData[], targetLocation?: string }, signal?: AbortSignal): Promise<void> {
         this.jobQueue = jobs;
         this.totalJobs = jobs.length;
         this.completedJobs = 0;
         this.analysisContext = context || { allPages: [] };
+        this.signal = signal;
 
         // Pre-compute topic index for speed
         this.topicIndex.clear();
+        this.pageIndex.clear();
         this.analysisContext.allPages.forEach(p => {
              const analysis = p as SeoAnalysis;
              const topic = analysis.topic || 'Uncategorized';
              if (!this.topicIndex.has(topic)) {
                  this.topicIndex.set(topic, []);
              }
-             this.topicIndex.get(topic)!.push({
+             const entry = {
                  url: p.url,
                  title: p.title,
                  intent: analysis.searchIntent || 'informational'
-             });
+             };
+             this.topicIndex.get(topic)!.push(entry);
+             this.pageIndex.set(p.url, entry);
         });
 
         return new Promise(resolve => {
             const checkCompletion = () => {
-                if (this.completedJobs === this.totalJobs) {
+                if (this.signal?.aborted) this.jobQueue = [];
+                if (this.completedJobs === this.totalJobs || (this.signal?.aborted && !this.workers.some(w => w.status === 'busy'))) {
                     resolve();
                 } else {
                     this.tryProcessNext();
@@ -73,7 +85,7 @@ export class AILoadBalancer {
     }
 
     private tryProcessNext() {
-        if (this.jobQueue.length === 0) return;
+        if (this.jobQueue.length === 0 || this.signal?.aborted) return;
         const availableWorker = this.workers.find(w => w.status === 'ready');
         if (!availableWorker) return;
         const job = this.jobQueue.shift();
@@ -90,8 +102,12 @@ export class AILoadBalancer {
             const topic = job.data.topic || 'Uncategorized';
             const allSiblings = this.topicIndex.get(topic) || [];
             
-            // Filter out self and take top 10
-            const clusterSiblings = allSiblings
+            // Semantically closest pages first (from embedding clustering), then the rest of the topic.
+            const similar = (job.data.similarPages || [])
+                .map(s => this.pageIndex.get(s.url))
+                .filter((p): p is { url: string; title: string; intent: string } => !!p);
+            const similarUrls = new Set(similar.map(p => p.url));
+            const clusterSiblings = [...similar, ...allSiblings.filter(p => !similarUrls.has(p.url))]
                 .filter(p => p.url !== job.data.url)
                 .slice(0, 10);
 
@@ -104,7 +120,8 @@ export class AILoadBalancer {
                     topicCluster: clusterSiblings.length > 0 ? clusterSiblings : job.topicCluster 
                 },
                 job.serpData,
-                this.analysisContext.targetLocation
+                this.analysisContext.targetLocation,
+                this.signal
             );
             
             this.onResultCallback({ url: job.data.url, data: fullResult });
@@ -113,12 +130,14 @@ export class AILoadBalancer {
 
         } catch (error) {
             const err = error as Error;
-            if (error instanceof RateLimitError) {
+            if (this.signal?.aborted) {
+                worker.status = 'ready';
+            } else if (error instanceof RateLimitError) {
                 console.warn(`Worker ${worker.config.id} is rate-limited. Cooling down...`);
                 worker.status = 'coolingDown';
-                setTimeout(() => { worker.status = 'ready'; }, COOLDOWN_MS);
+                setTimeout(() => { worker.status = 'ready'; }, error.retryAfterMs ?? COOLDOWN_MS);
                 this.jobQueue.unshift(job);
-            } else if (job.retries < MAX_RETRIES) {
+            } else if (job.retries < MAX_RETRIES && !(error instanceof SensitiveRequestBlockedError)) {
                 job.retries++;
                 console.warn(`Job for ${job.data.url} failed. Retrying (${job.retries}/${MAX_RETRIES}). Error: ${err.message}`);
                 this.jobQueue.push(job);
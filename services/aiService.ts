@@ -1,9 +1,15 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { RewriteSuggestion, AiConfig, AiProvider, SeoAnalysis, SeoData, InternalLinkSuggestion, SerpResult } from '../types';
-import { robustFetch } from './fetchService';
+import { RewriteSuggestion, AiConfig, AiProvider, SeoAnalysis, SeoData, InternalLinkSuggestion, SerpResult, HeadingOutlineItem, JsonLdSchemaType, GeneratedSchema, CannibalizationGroup, CannibalizationFix } from '../types';
+import { robustFetch, FetchError, SensitiveRequestBlockedError } from './fetchService';
+import { analyzeStructuredData } from './structuredDataService';
+import { truncateForSerp } from './pixelWidthService';
+import { normalizeUrl } from './urlNormalizationService';
+import { jaccardSimilarity, textSimilarity } from './similarityService';
+import { LocalTopicCluster } from './topicClusteringService';
+import { cacheService } from './cacheService';
 
 export class RateLimitError extends Error {
-    constructor(message: string) {
+    constructor(message: string, public readonly retryAfterMs?: number) {
         super(message);
         this.name = 'RateLimitError';
     }
@@ -88,7 +94,9 @@ const ultraSuggestionSchema = {
                     rationale: { type: Type.STRING, description: '2-3 sentence strategic explanation' },
                     competitiveDifferentiator: { type: Type.STRING, description: 'How this beats competitor titles/descriptions' },
                     clickThroughOptimization: { type: Type.OBJECT, properties: { emotionalHooks: { type: Type.ARRAY, items: { type: Type.STRING } }, urgency: { type: Type.BOOLEAN }, specificity: { type: Type.STRING } } },
-                    expectedCtrLift: { type: Type.STRING, description: 'Estimated CTR improvement (e.g., "+15-25%")' }
+                    expectedCtrLift: { type: Type.STRING, description: 'Estimated CTR improvement (e.g., "+15-25%")' },
+                    socialTitle: { type: Type.STRING, description: 'Open Graph / Twitter title for social shares, under 70 chars' },
+                    socialDescription: { type: Type.STRING, description: 'Open Graph / Twitter description for social shares, under 200 chars' }
                 },
                 required: ["title", "description", "rationale", "competitiveDifferentiator", "expectedCtrLift"]
             }
@@ -96,32 +104,127 @@ const ultraSuggestionSchema = {
     }
 };
 
+const jsonLdGenerationSchema = {
+    type: Type.OBJECT,
+    properties: {
+        schemaType: { type: Type.STRING, description: "The schema.org type generated. Must be one of: 'FAQPage', 'Article', 'BlogPosting', 'Product', 'LocalBusiness'." },
+        jsonLd: { type: Type.STRING, description: 'The complete JSON-LD object (including @context and @type), serialized as a JSON string.' }
+    },
+    required: ["schemaType", "jsonLd"]
+};
+
 const providerApiEndpoints: Record<Exclude<AiProvider, 'gemini'>, string> = {
     openai: 'https://api.openai.com/v1/chat/completions',
     openrouter: 'https://openrouter.ai/api/v1/chat/completions',
     groq: 'https://api.groq.com/openai/v1/chat/completions',
 };
 
-async function executeOpenAiCompatibleRequest<T>(endpoint: string, config: AiConfig, systemPrompt: string, userPrompt: string, temperature: number): Promise<T> {
+// POSTs JSON to an OpenAI-compatible API. A 429 that outlasts the fetch layer's retries becomes a RateLimitError.
+async function postToProvider(endpoint: string, config: AiConfig, body: object, signal?: AbortSignal): Promise<any> {
+    try {
+        const response = await robustFetch(endpoint, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${config.apiKey}`,
+            },
+            body: JSON.stringify(body)
+        }, { signal });
+        return await response.json();
+    } catch (e) {
+        if (e instanceof FetchError && e.status === 429) throw new RateLimitError(`Rate limit hit for ${config.provider}: ${e.message}`, e.retryAfterMs);
+        throw e;
+    }
+}
+
+async function executeOpenAiCompatibleRequest<T>(endpoint: string, config: AiConfig, systemPrompt: string, userPrompt: string, temperature: number, signal?: AbortSignal): Promise<T> {
     const model = config.model || (config.provider === 'openai' ? 'gpt-4o-mini' : 'llama-3.1-8b-instant');
-    const response = await robustFetch(endpoint, {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${config.apiKey}`,
-        },
-        body: JSON.stringify({
-            model: model,
-            temperature,
-            response_format: { type: "json_object" },
-            messages: [{ role: "system", content: systemPrompt }, { role: "user", content: userPrompt }]
-        })
-    });
-    if (response.status === 429) throw new RateLimitError(`Rate limit hit for ${config.provider}`);
-    const data = await response.json();
+    const data = await postToProvider(endpoint, config, {
+        model: model,
+        temperature,
+        response_format: { type: "json_object" },
+        messages: [{ role: "system", content: systemPrompt }, { role: "user", content: userPrompt }]
+    }, signal);
     return safeJsonParse(data.choices[0].message.content);
 }
 
+// Providers with an embeddings API. OpenRouter and Groq only serve chat models.
+const embeddingModels: Partial<Record<AiProvider, { model: string; endpoint?: string }>> = {
+    gemini: { model: 'gemini-embedding-001' },
+    openai: { model: 'text-embedding-3-small', endpoint: 'https://api.openai.com/v1/embeddings' },
+};
+const EMBEDDING_DIMENSIONS = 768;
+const EMBEDDING_BATCH_SIZE = 50;
+const EMBEDDING_CONTENT_CHARS = 2000;
+
+export const supportsEmbeddings = (config: AiConfig): boolean => !!embeddingModels[config.provider];
+
+const embeddingText = (page: SeoData) => [
+    page.title,
+    ...(page.headings ?? []).filter(h => h.level === 1).map(h => h.text),
+    page.description,
+    page.content.slice(0, EMBEDDING_CONTENT_CHARS),
+].filter(Boolean).join('\n');
+
+// FNV-1a, enough to notice that a page's text changed since it was embedded.
+const hashText = (text: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+    return (hash >>> 0).toString(16);
+};
+
+async function requestEmbeddings(texts: string[], config: AiConfig, signal?: AbortSignal): Promise<number[][]> {
+    const { model, endpoint } = embeddingModels[config.provider]!;
+    if (config.provider === 'gemini') {
+        const ai = new GoogleGenAI({ apiKey: config.apiKey });
+        const response = await ai.models.embedContent({ model, contents: texts, config: { taskType: 'CLUSTERING', outputDimensionality: EMBEDDING_DIMENSIONS, abortSignal: signal } });
+        return (response.embeddings ?? []).map(e => e.values ?? []);
+    }
+    const data = await postToProvider(endpoint!, config, { model, input: texts, dimensions: EMBEDDING_DIMENSIONS }, signal);
+    return (data.data as { index: number; embedding: number[] }[]).sort((a, b) => a.index - b.index).map(d => d.embedding);
+}
+
+/**
+ * Embeds each page once: vectors are cached per URL and only recomputed when the page text or the
+ * embedding model changes. Returns URL -> embedding for every page that could be embedded.
+ */
+export const embedPages = async (pages: SeoData[], config: AiConfig, onProgress: (completed: number, total: number) => void, signal?: AbortSignal): Promise<Map<string, Float32Array>> => {
+    const model = embeddingModels[config.provider]?.model;
+    if (!model) throw new Error(`${config.provider} has no embeddings API. Add a Gemini or OpenAI key to use embedding clustering.`);
+
+    const texts = new Map(pages.map(p => [p.url, embeddingText(p)]));
+    const cached = await cacheService.getEmbeddings(pages.map(p => p.url), model);
+    const embeddings = new Map<string, Float32Array>();
+    const missing: { url: string; text: string; textHash: string }[] = [];
+    texts.forEach((text, url) => {
+        const textHash = hashText(text);
+        const hit = cached.get(url);
+        if (hit && hit.textHash === textHash) embeddings.set(url, hit.vector);
+        else if (text.trim()) missing.push({ url, text, textHash });
+    });
+
+    let completed = pages.length - missing.length;
+    onProgress(completed, pages.length);
+    for (let i = 0; i < missing.length; i += EMBEDDING_BATCH_SIZE) {
+        signal?.throwIfAborted();
+        const batch = missing.slice(i, i + EMBEDDING_BATCH_SIZE);
+        try {
+            const vectors = await requestEmbeddings(batch.map(b => b.text), config, signal);
+            const entries = batch
+                .map((b, j) => ({ url: b.url, textHash: b.textHash, vector: Float32Array.from(vectors[j] ?? []) }))
+                .filter(e => e.vector.length > 0);
+            entries.forEach(e => embeddings.set(e.url, e.vector));
+            await cacheService.setEmbeddings(entries, model);
+        } catch (e) {
+            if (signal?.aborted || e instanceof RateLimitError || e instanceof SensitiveRequestBlockedError) throw e;
+            console.error(`Embedding batch ${i / EMBEDDING_BATCH_SIZE + 1} failed`, e);
+        }
+        completed += batch.length;
+        onProgress(completed, pages.length);
+    }
+    return embeddings;
+};
+
 export const validateApiKey = async (config: AiConfig): Promise<boolean> => {
     if (!config.apiKey) return false;
     try {
@@ -133,12 +236,18 @@ export const validateApiKey = async (config: AiConfig): Promise<boolean> => {
         }
         return true;
     } catch (error) {
+        // Not a verdict on the key: the request never reached the provider. Let the caller explain why.
+        if (error instanceof SensitiveRequestBlockedError) throw error;
         console.error(`API Key validation failed for ${config.provider}:`, (error as Error).message);
         return false;
     }
 };
 
-export const extractTopicsForClustering = async (pages: SeoAnalysis[], config: AiConfig, onProgress: (completed: number, total: number) => void): Promise<Map<string, string>> => {
+/**
+ * Asks the AI for each page's primary topic. When the signal aborts, pages not yet processed are left out of
+ * the returned map rather than marked Uncategorized.
+ */
+export const extractTopicsForClustering = async (pages: SeoAnalysis[], config: AiConfig, onProgress: (completed: number, total: number) => void, signal?: AbortSignal): Promise<Map<string, string>> => {
     const topicMap = new Map<string, string>();
     const systemPrompt = "You are an efficient SEO topic extractor. Your only job is to identify the primary keyword topic of the given content. Respond in JSON.";
     
@@ -149,14 +258,15 @@ export const extractTopicsForClustering = async (pages: SeoAnalysis[], config: A
                 const ai = new GoogleGenAI({ apiKey: config.apiKey });
                 const response = await ai.models.generateContent({
                     model: "gemini-2.5-flash", contents: userPrompt,
-                    config: { systemInstruction: systemPrompt, responseMimeType: "application/json", responseSchema: topicExtractionSchema, temperature: 0.0, thinkingConfig: { thinkingBudget: 0 } },
+                    config: { systemInstruction: systemPrompt, responseMimeType: "application/json", responseSchema: topicExtractionSchema, temperature: 0.0, thinkingConfig: { thinkingBudget: 0 }, abortSignal: signal },
                 });
                 topicMap.set(page.url, safeJsonParse<{primaryTopic: string}>(response.text).primaryTopic || 'Uncategorized');
             } else {
-                const result = await executeOpenAiCompatibleRequest<{primaryTopic: string}>(providerApiEndpoints[config.provider], config, systemPrompt, userPrompt, 0.0);
+                const result = await executeOpenAiCompatibleRequest<{primaryTopic: string}>(providerApiEndpoints[config.provider], config, systemPrompt, userPrompt, 0.0, signal);
                 topicMap.set(page.url, result.primaryTopic || 'Uncategorized');
             }
         } catch (e) {
+            if (signal?.aborted) return;
             console.error(`Topic extraction failed for ${page.url}`, e);
             topicMap.set(page.url, 'Uncategorized');
         }
@@ -165,7 +275,7 @@ export const extractTopicsForClustering = async (pages: SeoAnalysis[], config: A
     let completed = 0;
     const queue = [...pages];
     await Promise.all(Array(10).fill(null).map(async () => {
-        while (queue.length > 0) {
+        while (queue.length > 0 && !signal?.aborted) {
             await processPage(queue.shift()!);
             completed++;
             onProgress(completed, pages.length);
@@ -174,25 +284,85 @@ export const extractTopicsForClustering = async (pages: SeoAnalysis[], config: A
     return topicMap;
 };
 
-export const calculatePriorityScore = async (pages: SeoAnalysis[], config: AiConfig, onProgress: (completed: number, total: number) => void): Promise<Map<string, number>> => {
+const clusterLabelSchema = {
+    type: Type.OBJECT,
+    properties: {
+        label: { type: Type.STRING, description: 'A concise, human-readable topic name for the cluster (2-5 words).' }
+    },
+    required: ["label"]
+};
+
+/**
+ * Renames locally computed topic clusters with one AI call per cluster, based on its top terms and a
+ * sample of page titles. Clusters whose call fails, or whose new name collides with another, keep their label,
+ * as do the clusters not reached before `signal` aborts.
+ */
+export const polishClusterLabels = async (clusters: LocalTopicCluster[], titlesByUrl: Map<string, string>, config: AiConfig, onProgress: (completed: number, total: number) => void, signal?: AbortSignal): Promise<Map<string, string>> => {
+    const labelMap = new Map<string, string>();
+    const systemPrompt = "You are an SEO taxonomy editor. Name the topic shared by a group of pages from one website, the way it would appear as a category in the site's navigation. Respond in JSON.";
+
+    const processCluster = async (cluster: LocalTopicCluster) => {
+        try {
+            const sampleTitles = cluster.urls.slice(0, 12).map(url => `- ${titlesByUrl.get(url) || url}`).join('\n');
+            const userPrompt = `Current label: "${cluster.label}"\nTop terms: ${cluster.topTerms.join(', ')}\nPages in cluster: ${cluster.urls.length}\nSample page titles:\n${sampleTitles}`;
+            let label: string;
+            if (config.provider === 'gemini') {
+                const ai = new GoogleGenAI({ apiKey: config.apiKey });
+                const response = await ai.models.generateContent({
+                    model: "gemini-2.5-flash", contents: userPrompt,
+                    config: { systemInstruction: systemPrompt, responseMimeType: "application/json", responseSchema: clusterLabelSchema, temperature: 0.0, thinkingConfig: { thinkingBudget: 0 }, abortSignal: signal },
+                });
+                label = safeJsonParse<{label: string}>(response.text).label;
+            } else {
+                label = (await executeOpenAiCompatibleRequest<{label: string}>(providerApiEndpoints[config.provider], config, systemPrompt, userPrompt, 0.0, signal)).label;
+            }
+            if (label?.trim()) labelMap.set(cluster.label, label.trim());
+        } catch (e) {
+            if (signal?.aborted) return;
+            console.error(`Label polishing failed for cluster "${cluster.label}"`, e);
+        }
+    };
+
+    let completed = 0;
+    const queue = [...clusters];
+    await Promise.all(Array(10).fill(null).map(async () => {
+        while (queue.length > 0 && !signal?.aborted) {
+            await processCluster(queue.shift()!);
+            completed++;
+            onProgress(completed, clusters.length);
+        }
+    }));
+
+    // Two clusters renamed to the same thing would silently merge, so those keep their local labels.
+    const counts = new Map<string, number>();
+    labelMap.forEach(label => counts.set(label, (counts.get(label) ?? 0) + 1));
+    labelMap.forEach((label, original) => { if (counts.get(label)! > 1) labelMap.delete(original); });
+    return labelMap;
+};
+
+export const calculatePriorityScore = async (pages: SeoAnalysis[], config: AiConfig, onProgress: (completed: number, total: number) => void, signal?: AbortSignal): Promise<Map<string, number>> => {
     const scoreMap = new Map<string, number>();
-    const systemPrompt = "You are an SEO Prioritization expert. Your job is to calculate a 'Priority Score' from 0-100. A high score means fixing this page will likely have a high impact on organic traffic. Prioritize low-hanging fruit (poor grade but easy fixes) and high-potential pages. Respond only in JSON.";
+    const systemPrompt = "You are an SEO Prioritization expert. Your job is to calculate a 'Priority Score' from 0-100. A high score means fixing this page will likely have a high impact on organic traffic. Prioritize low-hanging fruit (poor grade but easy fixes) and high-potential pages. Pages the site marks as important (high sitemap priority) that have gone stale (not modified for months) should score higher. Respond only in JSON.";
 
     const processPage = async (page: SeoAnalysis) => {
-        const userPrompt = `Calculate a priority score for the following page.\n- Current Overall SEO Grade: ${page.grade}\n- Title Grade: ${page.titleGrade}\n- Description Grade: ${page.descriptionGrade}\n- Content Issues: ${page.issues.join(', ') || 'None'}\n- Snippet Potential Score: ${page.featuredSnippetPotential?.score || 'N/A'}`;
+        const lastmodTime = page.sitemapMeta?.lastmod ? Date.parse(page.sitemapMeta.lastmod) : NaN;
+        const daysSinceModified = isNaN(lastmodTime) ? 'Unknown' : `${Math.max(0, Math.round((Date.now() - lastmodTime) / 86400000))} days ago`;
+        const userPrompt = `Calculate a priority score for the following page.\n- Current Overall SEO Grade: ${page.grade}\n- Title Grade: ${page.titleGrade}\n- Description Grade: ${page.descriptionGrade}\n- Content Issues: ${page.issues.join(', ') || 'None'}\n- Snippet Potential Score: ${page.featuredSnippetPotential?.score || 'N/A'}\n- Sitemap Priority: ${page.sitemapMeta?.priority ?? 'N/A'}\n- Last Modified: ${daysSinceModified}${page.sitemapMeta?.changefreq ? ` (declared changefreq: ${page.sitemapMeta.changefreq})` : ''}`;
         try {
              if (config.provider === 'gemini') {
                 const ai = new GoogleGenAI({ apiKey: config.apiKey });
                 const response = await ai.models.generateContent({
                     model: "gemini-2.5-flash", contents: userPrompt,
-                    config: { systemInstruction: systemPrompt, responseMimeType: "application/json", responseSchema: priorityScoreSchema, temperature: 0.1, thinkingConfig: { thinkingBudget: 0 } },
+                    config: { systemInstruction: systemPrompt, responseMimeType: "application/json", responseSchema: priorityScoreSchema, temperature: 0.1, thinkingConfig: { thinkingBudget: 0 }, abortSignal: signal },
                 });
                 scoreMap.set(page.url, safeJsonParse<{priorityScore: number}>(response.text).priorityScore || 0);
             } else {
-                const result = await executeOpenAiCompatibleRequest<{priorityScore: number}>(providerApiEndpoints[config.provider], config, systemPrompt, userPrompt, 0.1);
+                const result = await executeOpenAiCompatibleRequest<{priorityScore: number}>(providerApiEndpoints[config.provider], config, systemPrompt, userPrompt, 0.1, signal);
                 scoreMap.set(page.url, result.priorityScore || 0);
             }
         } catch (e) {
+            // Unscored rather than scored 0, so the page is picked up by the next run.
+            if (signal?.aborted) return;
              console.error(`Priority score calculation failed for ${page.url}`, e);
             scoreMap.set(page.url, 0);
         }
@@ -201,7 +371,7 @@ export const calculatePriorityScore = async (pages: SeoAnalysis[], config: AiCon
     let completed = 0;
     const queue = [...pages];
     await Promise.all(Array(10).fill(null).map(async () => {
-        while (queue.length > 0) {
+        while (queue.length > 0 && !signal?.aborted) {
             await processPage(queue.shift()!);
             completed++;
             onProgress(completed, pages.length);
@@ -237,16 +407,227 @@ export const getSemanticDiff = async (
     }
 };
 
-export const detectContentCannibalization = (clusters: Map<string, SeoAnalysis[]>): Map<string, SeoAnalysis[]> => {
-    const issues = new Map<string, SeoAnalysis[]>();
-    clusters.forEach((pages, topic) => {
-        if (pages.length > 1 && topic !== 'Uncategorized') {
-            issues.set(topic, pages);
+const JSON_LD_SCHEMA_TYPES: JsonLdSchemaType[] = ['FAQPage', 'Article', 'BlogPosting', 'Product', 'LocalBusiness'];
+
+/**
+ * Generates ready-to-paste JSON-LD for a page and validates it against the required
+ * properties for its type, feeding any gaps (or a different type than requested) back to the AI for one more attempt.
+ * @param schemaType A specific type, or 'auto' to let the AI pick the best fit for the content.
+ */
+export const generateJsonLdSchema = async (pageData: SeoAnalysis, config: AiConfig, schemaType: JsonLdSchemaType | 'auto', targetLocation?: string): Promise<GeneratedSchema> => {
+    const MAX_ATTEMPTS = 2;
+    const systemPrompt = "You are a schema.org structured data specialist. You write valid JSON-LD that qualifies for Google rich results, using only facts stated in the page content. Never invent prices, ratings, reviews, addresses or dates: omit a property rather than guess it. Respond in JSON.";
+    const typeInstruction = schemaType === 'auto'
+        ? `Choose the single best type for this page from: ${JSON_LD_SCHEMA_TYPES.join(', ')}.`
+        : `Generate a ${schemaType}.`;
+    const paa = pageData.aeoOptimization?.paaQuestions;
+    const outline = formatHeadingOutline(pageData.headings);
+    const basePrompt = `${typeInstruction}\n\n**TYPE GUIDANCE:**\n- FAQPage: answer each question from the page content${paa && paa.length > 0 ? `; use these People Also Ask questions where the content answers them:\n${paa.map(q => `  - ${q}`).join('\n')}` : ''}\n- Article/BlogPosting: headline, description, image, datePublished, dateModified, author.\n- Product: name, description, image, brand, offers.\n- LocalBusiness: name, address, telephone, url${targetLocation ? `, areaServed "${targetLocation}"` : ''}.\n\n**PAGE DATA:**\n- URL: ${pageData.url}\n- Title: "${pageData.title}"\n- Description: "${pageData.description}"${outline ? `\n- Heading Outline:\n${outline}` : ''}${pageData.structuredData?.types.length ? `\n- JSON-LD already on the page: ${pageData.structuredData.types.join(', ')}` : ''}\n- Content Snippet:\n\`\`\`\n${pageData.content.substring(0, 8000)}\n\`\`\``;
+
+    let feedback = '';
+    let best: GeneratedSchema | null = null;
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+        const userPrompt = feedback ? `${basePrompt}\n\n⚠️ PREVIOUS ATTEMPT WAS REJECTED:\n${feedback}` : basePrompt;
+        let result: { schemaType: string; jsonLd: string };
+        if (config.provider === 'gemini') {
+            const ai = new GoogleGenAI({ apiKey: config.apiKey });
+            const response = await ai.models.generateContent({
+                model: "gemini-2.5-flash", contents: userPrompt,
+                config: { systemInstruction: systemPrompt, responseMimeType: "application/json", responseSchema: jsonLdGenerationSchema, temperature: 0.2 },
+            });
+            result = safeJsonParse<{ schemaType: string; jsonLd: string }>(response.text);
+        } else {
+            result = await executeOpenAiCompatibleRequest<{ schemaType: string; jsonLd: string }>(providerApiEndpoints[config.provider], config, systemPrompt, userPrompt, 0.2);
         }
-    });
-    return issues;
+
+        // Some models return the object itself rather than a string.
+        const jsonLd = typeof result.jsonLd === 'string' ? safeJsonParse<Record<string, any>>(result.jsonLd) : result.jsonLd as Record<string, any>;
+        const type = (JSON_LD_SCHEMA_TYPES.includes(jsonLd['@type']) ? jsonLd['@type'] : result.schemaType) as JsonLdSchemaType;
+        if (!JSON_LD_SCHEMA_TYPES.includes(type)) throw new Error(`AI returned unsupported schema type "${type}".`);
+        if (schemaType !== 'auto' && type !== schemaType) {
+            // Relabelling it would pass off e.g. Article properties as a Product, so ask again.
+            feedback = `You generated a ${type}, but a ${schemaType} was requested. Generate a ${schemaType}.`;
+            continue;
+        }
+        const validated = { '@context': 'https://schema.org', ...jsonLd, '@type': type };
+
+        const report = analyzeStructuredData([JSON.stringify(validated)]);
+        const missingProperties = report.items.find(item => item.type === type)?.missingProperties ?? [];
+        best = { type, jsonLd: validated, missingProperties };
+        if (missingProperties.length === 0) return best;
+        feedback = `Missing required properties for ${type}: ${missingProperties.join(', ')}\nAdd these properties if the page content supports them.`;
+    }
+    if (!best) throw new Error(`AI did not generate the requested ${schemaType} schema.`);
+    return best;
+};
+
+// A pair of same-topic pages scoring at least this much (keyword overlap, title similarity and intent) competes.
+const CANNIBALIZATION_MIN_SCORE = 0.3;
+// Pages with near-identical titles and descriptions are duplicates better handled with a canonical.
+const CANONICAL_SIMILARITY = 0.85;
+const MERGE_KEYWORD_OVERLAP = 0.5;
+
+interface CompetingPair {
+    a: number;
+    b: number;
+    score: number;
+    keywordOverlap: number;
+    titleSimilarity: number;
+    descriptionSimilarity: number;
 }
 
+const keywordSet = (page: SeoAnalysis) => new Set((page.semanticKeywords ?? []).map(k => k.toLowerCase().trim()).filter(Boolean));
+
+// The page that should survive a merge or receive the canonical: best linked, then deepest, then highest priority.
+const pageStrength = (page: SeoAnalysis) => [page.inlinks?.length ?? 0, page.contentDepth?.wordCount ?? 0, page.priorityScore ?? 0];
+const strongerPage = (a: SeoAnalysis, b: SeoAnalysis) => {
+    const sa = pageStrength(a), sb = pageStrength(b);
+    for (let i = 0; i < sa.length; i++) if (sa[i] !== sb[i]) return sa[i] > sb[i] ? a : b;
+    return a;
+};
+
+/**
+ * Finds groups of pages within a topic cluster that compete for the same queries. Two pages compete when
+ * their semantic keywords overlap, their titles are similar and they serve the same search intent
+ * (weighted 45/35/20); competing pairs are joined transitively into groups, ranked by severity.
+ * Non-indexable pages are left out since they can't rank against anything.
+ */
+export const detectContentCannibalization = (clusters: Map<string, SeoAnalysis[]>): CannibalizationGroup[] => {
+    const groups: CannibalizationGroup[] = [];
+
+    clusters.forEach((clusterPages, topic) => {
+        if (topic === 'Uncategorized') return;
+        const pages = clusterPages.filter(p => p.status !== 'blocked' && (!p.quickScan || p.quickScan.indexability === 'indexable'));
+        if (pages.length < 2) return;
+
+        const keywords = pages.map(keywordSet);
+        const pairs: CompetingPair[] = [];
+        for (let a = 0; a < pages.length; a++) {
+            for (let b = a + 1; b < pages.length; b++) {
+                const keywordOverlap = keywords[a].size > 0 && keywords[b].size > 0 ? jaccardSimilarity(keywords[a], keywords[b]) : 0;
+                const titleSimilarity = textSimilarity(pages[a].title, pages[b].title);
+                const sameIntent = !!pages[a].searchIntent && pages[a].searchIntent === pages[b].searchIntent;
+                const score = 0.45 * keywordOverlap + 0.35 * titleSimilarity + (sameIntent ? 0.2 : 0);
+                if (score < CANNIBALIZATION_MIN_SCORE) continue;
+                pairs.push({ a, b, score, keywordOverlap, titleSimilarity, descriptionSimilarity: textSimilarity(pages[a].description, pages[b].description) });
+            }
+        }
+
+        // Union-find over competing pairs.
+        const parent = pages.map((_, i) => i);
+        const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+        pairs.forEach(({ a, b }) => { parent[find(a)] = find(b); });
+        const pairsByRoot = new Map<number, CompetingPair[]>();
+        pairs.forEach(pair => {
+            const root = find(pair.a);
+            if (!pairsByRoot.has(root)) pairsByRoot.set(root, []);
+            pairsByRoot.get(root)!.push(pair);
+        });
+
+        pairsByRoot.forEach(groupPairs => {
+            const members = Array.from(new Set(groupPairs.flatMap(p => [p.a, p.b]))).map(i => pages[i]);
+            const average = (pick: (p: CompetingPair) => number) => groupPairs.reduce((sum, p) => sum + pick(p), 0) / groupPairs.length;
+            const score = average(p => p.score);
+            const keywordOverlap = average(p => p.keywordOverlap);
+            const titleSimilarity = Math.max(...groupPairs.map(p => p.titleSimilarity));
+
+            const keywordCounts = new Map<string, number>();
+            members.forEach(page => keywordSet(page).forEach(k => keywordCounts.set(k, (keywordCounts.get(k) ?? 0) + 1)));
+            const sharedKeywords = Array.from(keywordCounts).filter(([, count]) => count > 1).sort((x, y) => y[1] - x[1]).slice(0, 8).map(([k]) => k);
+
+            const intents = new Set(members.map(p => p.searchIntent));
+            const sharedIntent = intents.size === 1 ? members[0].searchIntent : undefined;
+
+            let recommendation: CannibalizationFix;
+            let reason: string;
+            if (groupPairs.every(p => p.titleSimilarity >= CANONICAL_SIMILARITY && p.descriptionSimilarity >= CANONICAL_SIMILARITY)) {
+                recommendation = 'canonicalize';
+                reason = 'Titles and descriptions are near-identical, so these look like copies of one page. Point their canonicals at the primary URL.';
+            } else if (sharedIntent && keywordOverlap >= MERGE_KEYWORD_OVERLAP) {
+                recommendation = 'merge';
+                reason = `All pages serve ${sharedIntent} intent with heavily overlapping keywords. Consolidate them into the primary URL and 301 the rest.`;
+            } else {
+                recommendation = 'differentiate';
+                reason = 'The pages overlap but have distinct angles. Give each its own focus keyword and a clearly different title.';
+            }
+
+            const severity = score >= 0.6 || (score >= 0.45 && members.length >= 4) ? 'high' : score >= 0.45 ? 'medium' : 'low';
+
+            groups.push({
+                topic,
+                urls: members.map(p => p.url),
+                primaryUrl: members.reduce(strongerPage).url,
+                score,
+                severity,
+                sharedKeywords,
+                titleSimilarity,
+                sharedIntent,
+                recommendation,
+                reason,
+            });
+        });
+    });
+
+    const severityRank = { high: 0, medium: 1, low: 2 };
+    return groups.sort((a, b) => severityRank[a.severity] - severityRank[b.severity] || b.score - a.score);
+};
+
+const differentiatedTitlesSchema = {
+    type: Type.OBJECT,
+    properties: {
+        pages: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    url: { type: Type.STRING },
+                    focusKeyword: { type: Type.STRING, description: 'The distinct query this page should own' },
+                    title: { type: Type.STRING, description: 'SEO-optimized meta title under 60 chars' },
+                    description: { type: Type.STRING, description: 'Compelling meta description under 160 chars' },
+                    rationale: { type: Type.STRING, description: 'One sentence on how this separates the page from the others' }
+                },
+                required: ["url", "focusKeyword", "title", "description", "rationale"]
+            }
+        }
+    },
+    required: ["pages"]
+};
+
+/**
+ * Rewrites the titles and descriptions of a whole cannibalisation group in a single AI call, so every page
+ * gets a distinct focus keyword chosen with the others in view. Returns one suggestion per URL.
+ */
+export const generateDifferentiatedTitles = async (group: CannibalizationGroup, pages: SeoAnalysis[], config: AiConfig, targetLocation?: string): Promise<Map<string, RewriteSuggestion>> => {
+    const systemPrompt = "You are an SEO strategist resolving keyword cannibalization. Several pages of one site compete for the same queries. Give each page its own distinct focus keyword and write a meta title and description that make the difference obvious in search results. Strict constraints: Title < 60 chars. Description < 160 chars. Respond in JSON.";
+    const geoInstruction = targetLocation ? `Tailor the copy for an audience in "${targetLocation}".` : '';
+    const pageBriefs = pages.map(p => `- URL: ${p.url}\n  Title: "${p.title}"\n  Description: "${p.description}"\n  Intent: ${p.searchIntent || 'unknown'}\n  Keywords: ${(p.semanticKeywords ?? []).slice(0, 10).join(', ') || 'unknown'}`).join('\n');
+    const userPrompt = `These pages all target the topic "${group.topic}" and compete with each other.${group.sharedKeywords.length > 0 ? ` Shared keywords: ${group.sharedKeywords.join(', ')}.` : ''} The primary page is ${group.primaryUrl}; it keeps the head term, the others move to narrower or adjacent queries. ${geoInstruction}\n\n${pageBriefs}\n\nReturn one entry per URL in a 'pages' array, using the URLs exactly as given. No two titles may target the same focus keyword.`;
+
+    let result: { pages: (RewriteSuggestion & { url: string; focusKeyword: string })[] };
+    if (config.provider === 'gemini') {
+        const ai = new GoogleGenAI({ apiKey: config.apiKey });
+        const response = await ai.models.generateContent({
+            model: "gemini-2.5-flash", contents: userPrompt,
+            config: { systemInstruction: systemPrompt, responseMimeType: "application/json", responseSchema: differentiatedTitlesSchema, temperature: 0.5 },
+        });
+        result = safeJsonParse(response.text);
+    } else {
+        result = await executeOpenAiCompatibleRequest(providerApiEndpoints[config.provider], config, systemPrompt, userPrompt, 0.5);
+    }
+
+    const requested = new Set(pages.map(p => p.url));
+    const suggestions = new Map<string, RewriteSuggestion>();
+    (result.pages ?? []).forEach(({ url, focusKeyword, title, description, rationale }) => {
+        if (!requested.has(url) || !title) return;
+        const issues = validateSuggestion({ title, description, rationale });
+        if (!issues.valid) console.warn(`Differentiated title for ${url} has issues: ${issues.issues.join(' ')}`);
+        suggestions.set(url, { title, description, rationale: `Focus keyword "${focusKeyword}". ${rationale}`, competitiveDifferentiator: 'Resolves keyword cannibalization within the site.' });
+    });
+    if (suggestions.size === 0) throw new Error('AI returned no usable titles for this group.');
+    return suggestions;
+};
+
 export type AnalysisResult = { 
     primaryTopic: string;
     semanticKeywords?: string[];
@@ -264,39 +645,69 @@ export type AnalysisResult = {
     competitiveAdvantage?: any;
 };
 
-const analyzeSeoUltraDeep = async (pageData: SeoAnalysis, config: AiConfig, context: { allPages: SeoData[], topicCluster?: { url: string, title: string, intent?: string }[] }, serpData: SerpResult[]): Promise<AnalysisResult> => {
+// Renders the H1–H3 outline as an indented list for prompts.
+function formatHeadingOutline(headings?: HeadingOutlineItem[]): string {
+    if (!headings || headings.length === 0) return '';
+    return headings.map(h => `${'  '.repeat(h.level - 1)}- H${h.level}: ${h.text}`).join('\n');
+}
+
+const analyzeSeoUltraDeep = async (pageData: SeoAnalysis, config: AiConfig, context: { allPages: SeoData[], topicCluster?: { url: string, title: string, intent?: string }[] }, serpData: SerpResult[], signal?: AbortSignal): Promise<AnalysisResult> => {
     const systemPrompt = "You are an ELITE SEO STRATEGIST & SERP PSYCHOLOGIST specializing in Answer Engine Optimization (AEO) and GEO (Generative Engine Optimization). Your analysis is deeply strategic, focusing on semantic SEO, user intent, and competitive differentiation to achieve #1 rankings and Featured Snippets.";
     const competitorIntel = serpData.length > 0 ? `\n\n**🎯 LIVE SERP COMPETITOR INTELLIGENCE (Top ${serpData.length} Results):**\n${serpData.map((result, i) => `- Competitor #${i + 1}: Title: "${result.title}", URL: ${result.url}`).join('\n')}` : '\n\n**⚠️ NO LIVE SERP DATA AVAILABLE**';
     
+    // Links the page already has (from the crawl), so suggestions only cover missing ones.
+    const existingLinks = new Set((pageData.outboundLinks || []).map(l => l.url));
+    const linkCandidates = (context.topicCluster || []).filter(p => p.url !== pageData.url && !existingLinks.has(p.url));
+
     // SOTA: Graph RAG Context Injection
-    const topicClusterContext = context.topicCluster && context.topicCluster.length > 0 
+    const topicClusterContext = linkCandidates.length > 0 
         ? `\n\n## 🕸️ INTERNAL LINKING OPPORTUNITIES (GRAPH RAG)
-           The following pages exist in this site's Knowledge Graph (Topic Cluster). 
+           The following pages exist in this site's Knowledge Graph (Topic Cluster) and are NOT yet linked from this page. 
            Select the best 2-3 pages to link TO from the current page to boost Topical Authority:
-           ${context.topicCluster.filter(p => p.url !== pageData.url).map(p => `- [${p.intent || 'Content'}] ${p.title} (${p.url})`).join('\n')}` 
+           ${linkCandidates.map(p => `- [${p.intent || 'Content'}] ${p.title} (${p.url})`).join('\n')}` 
+        : '';
+    const existingLinksSection = pageData.outboundLinks && pageData.outboundLinks.length > 0
+        ? `\n- Existing internal links (${pageData.outboundLinks.length}, never suggest these again): ${pageData.outboundLinks.slice(0, 60).map(l => `${l.url}${l.anchorText ? ` ["${l.anchorText}"]` : ''}`).join(', ')}`
+        : '';
+    const dropExistingLinks = (suggestions?: InternalLinkSuggestion[]) =>
+        Array.isArray(suggestions) ? suggestions.filter(s => !s.targetUrl || !existingLinks.has(normalizeUrl(s.targetUrl))) : suggestions;
+    const inlinkSection = pageData.inlinks ? `\n- Internal pages linking here: ${pageData.inlinks.length}` : '';
+
+    // With a heading outline the AI can judge structure directly, so a shorter content snippet suffices.
+    const outline = formatHeadingOutline(pageData.headings);
+    const contentLimit = outline ? 8000 : 20000;
+    const outlineSection = outline ? `\n- Heading Outline (H1–H3, document order):\n${outline}` : '';
+    const schema = pageData.structuredData;
+    const schemaSection = schema
+        ? `\n- Existing JSON-LD: ${schema.types.length > 0 ? schema.items.map(i => i.missingProperties.length > 0 ? `${i.type} (missing: ${i.missingProperties.join(', ')})` : i.type).join('; ') : 'none'}${schema.parseErrors.length > 0 ? ` (+${schema.parseErrors.length} invalid block(s))` : ''}. Base structuredDataSuggestions on this: fix what exists, only suggest types that are absent.`
         : '';
 
-    const analysisPrompt = `Analyze the SEO of this page with extreme depth.\n\n**PAGE DATA:**\n- URL: ${pageData.url}\n- Title: "${pageData.title}"\n- Description: "${pageData.description}"\n- Content Snippet (first 20k chars):\n\`\`\`\n${pageData.content.substring(0, 20000)}\n\`\`\`\n${competitorIntel}${topicClusterContext}\n\nYour response MUST be a single, perfectly formatted JSON object.`;
+    const analysisPrompt = `Analyze the SEO of this page with extreme depth.\n\n**PAGE DATA:**\n- URL: ${pageData.url}\n- Title: "${pageData.title}"\n- Description: "${pageData.description}"${outlineSection}${schemaSection}${existingLinksSection}${inlinkSection}\n- Content Snippet (first ${contentLimit / 1000}k chars):\n\`\`\`\n${pageData.content.substring(0, contentLimit)}\n\`\`\`\n${competitorIntel}${topicClusterContext}\n\nWhen judging the title, compare it against the H1 and the H2 structure: the title should reflect what the page actually covers.\nYour response MUST be a single, perfectly formatted JSON object.`;
 
     if (config.provider === 'gemini') {
         const ai = new GoogleGenAI({ apiKey: config.apiKey });
         const response = await ai.models.generateContent({
             model: "gemini-2.5-flash", contents: analysisPrompt,
-            config: { systemInstruction: systemPrompt, responseMimeType: "application/json", responseSchema: ultraDeepAnalysisSchema, temperature: 0.3 },
+            config: { systemInstruction: systemPrompt, responseMimeType: "application/json", responseSchema: ultraDeepAnalysisSchema, temperature: 0.3, abortSignal: signal },
         });
         const result = safeJsonParse<any>(response.text);
-        return { ...result, titleGrade: result.titleAnalysis?.grade, titleFeedback: result.titleAnalysis?.feedback, descriptionGrade: result.descriptionAnalysis?.grade, descriptionFeedback: result.descriptionAnalysis?.feedback, readabilityGrade: result.readabilityAnalysis?.grade, readabilityFeedback: result.readabilityAnalysis?.feedback, internalLinkSuggestions: result.internalLinkingAnalysis };
+        return { ...result, titleGrade: result.titleAnalysis?.grade, titleFeedback: result.titleAnalysis?.feedback, descriptionGrade: result.descriptionAnalysis?.grade, descriptionFeedback: result.descriptionAnalysis?.feedback, readabilityGrade: result.readabilityAnalysis?.grade, readabilityFeedback: result.readabilityAnalysis?.feedback, internalLinkSuggestions: dropExistingLinks(result.internalLinkingAnalysis) };
     } else {
-        const result = await executeOpenAiCompatibleRequest<any>(providerApiEndpoints[config.provider], config, systemPrompt, analysisPrompt, 0.3);
-        return { ...result, titleGrade: result.titleAnalysis?.grade, titleFeedback: result.titleAnalysis?.feedback, descriptionGrade: result.descriptionAnalysis?.grade, descriptionFeedback: result.descriptionAnalysis?.feedback, readabilityGrade: result.readabilityAnalysis?.grade, readabilityFeedback: result.readabilityAnalysis?.feedback, internalLinkSuggestions: result.internalLinkingAnalysis };
+        const result = await executeOpenAiCompatibleRequest<any>(providerApiEndpoints[config.provider], config, systemPrompt, analysisPrompt, 0.3, signal);
+        return { ...result, titleGrade: result.titleAnalysis?.grade, titleFeedback: result.titleAnalysis?.feedback, descriptionGrade: result.descriptionAnalysis?.grade, descriptionFeedback: result.descriptionAnalysis?.feedback, readabilityGrade: result.readabilityAnalysis?.grade, readabilityFeedback: result.readabilityAnalysis?.feedback, internalLinkSuggestions: dropExistingLinks(result.internalLinkingAnalysis) };
     }
 };
 
 // --- SOTA: Reflexion Validation Helper ---
 function validateSuggestion(suggestion: RewriteSuggestion): { valid: boolean; issues: string[] } {
     const issues: string[] = [];
-    if (suggestion.title.length > 60) issues.push(`Title is ${suggestion.title.length} chars (max 60).`);
-    if (suggestion.description.length > 160) issues.push(`Description is ${suggestion.description.length} chars (max 160).`);
+    // Google truncates by rendered width, not characters, so check what would actually be cut.
+    const title = truncateForSerp(suggestion.title, 'title');
+    if (title.truncated) issues.push(`Title is ${title.widthPx}px wide (max ${title.maxWidthPx}px); Google would cut it after "${title.visible}".`);
+    const description = truncateForSerp(suggestion.description, 'description');
+    if (description.truncated) issues.push(`Description is ${description.widthPx}px wide (max ${description.maxWidthPx}px); Google would cut "${description.hidden.trim()}".`);
+    if (suggestion.socialTitle && suggestion.socialTitle.length > 70) issues.push(`Social title is ${suggestion.socialTitle.length} chars (max 70).`);
+    if (suggestion.socialDescription && suggestion.socialDescription.length > 200) issues.push(`Social description is ${suggestion.socialDescription.length} chars (max 200).`);
     // Basic checks to ensure fields are present
     if (!suggestion.rationale) issues.push("Missing rationale.");
     return { valid: issues.length === 0, issues };
@@ -305,15 +716,15 @@ function validateSuggestion(suggestion: RewriteSuggestion): { valid: boolean; is
 // --- SOTA: Fallback mechanism ---
 function generateFallbackSuggestions(pageData: SeoAnalysis): RewriteSuggestion[] {
     return [{
-        title: pageData.title.substring(0, 60),
-        description: pageData.description.substring(0, 160),
+        title: truncateForSerp(pageData.title, 'title').visible,
+        description: truncateForSerp(pageData.description, 'description').visible,
         rationale: "Fallback suggestion: truncated original content to meet length constraints due to AI processing error.",
         competitiveDifferentiator: "Standard optimization.",
         expectedCtrLift: "+0% (Fallback)"
     }];
 }
 
-const generateUltraSeoSuggestions = async (pageData: SeoAnalysis, analysisResult: AnalysisResult, config: AiConfig, serpData: SerpResult[], targetLocation?: string): Promise<RewriteSuggestion[]> => {
+const generateUltraSeoSuggestions = async (pageData: SeoAnalysis, analysisResult: AnalysisResult, config: AiConfig, serpData: SerpResult[], targetLocation?: string, signal?: AbortSignal): Promise<RewriteSuggestion[]> => {
     // --- SOTA: REFLEXION LOOP (Self-Correcting Agent) ---
     const MAX_REFLEXION_ATTEMPTS = 3;
     let attempts = 0;
@@ -323,12 +734,15 @@ const generateUltraSeoSuggestions = async (pageData: SeoAnalysis, analysisResult
     const geoInstruction = targetLocation ? `🎯 **GEO-TARGETING:** All suggestions must be tailored for an audience in "${targetLocation}".` : `🌍 **GLOBAL AUDIENCE:** Suggestions should have broad appeal.`;
     const competitorBriefing = serpData.length > 0 ? `## 🔥 LIVE SERP BATTLEFIELD INTELLIGENCE\nYou must write titles/descriptions that are SUPERIOR to these top competitors:\n${serpData.map(r => `- Competitor Title: "${r.title}"`).join('\n')}` : `## ⚠️ NO SERP DATA\nProceed with best-practice copywriting.`;
     
+    const social = pageData.socialMeta;
+    const socialBriefing = `\n\n**SOCIAL SHARING TAGS (og:/twitter:):**\n- Current og:title: "${social?.ogTitle || 'MISSING'}"\n- Current og:description: "${social?.ogDescription || 'MISSING'}"${social?.twitterTitle ? `\n- Current twitter:title: "${social.twitterTitle}"` : ''}${social?.twitterDescription ? `\n- Current twitter:description: "${social.twitterDescription}"` : ''}\nFor each variation also write a socialTitle (< 70 chars) and socialDescription (< 200 chars) tuned for social feeds: curiosity and shareability over keywords, consistent with the meta tags.`;
+    
     while (attempts < MAX_REFLEXION_ATTEMPTS) {
-        let suggestionPrompt = `Based on the provided SEO analysis, create 3 SERP-DOMINATING meta tag variations.\n\n${geoInstruction}\n\n**AI ANALYSIS SUMMARY:**\n- Primary Topic: ${analysisResult.primaryTopic}\n- Search Intent: ${analysisResult.searchIntent}\n- Title Feedback: ${analysisResult.titleFeedback}\n- Description Feedback: ${analysisResult.descriptionFeedback}\n- Key Competitive Weakness to Exploit: ${analysisResult.competitiveAdvantage?.weaknesses?.[0] || 'N/A'}\n\n${competitorBriefing}\n\n**PAGE DATA:**\n- URL: ${pageData.url}\n- Original Title: "${pageData.title}"\n- Original Description: "${pageData.description}"`;
+        let suggestionPrompt = `Based on the provided SEO analysis, create 3 SERP-DOMINATING meta tag variations.\n\n${geoInstruction}\n\n**AI ANALYSIS SUMMARY:**\n- Primary Topic: ${analysisResult.primaryTopic}\n- Search Intent: ${analysisResult.searchIntent}\n- Title Feedback: ${analysisResult.titleFeedback}\n- Description Feedback: ${analysisResult.descriptionFeedback}\n- Key Competitive Weakness to Exploit: ${analysisResult.competitiveAdvantage?.weaknesses?.[0] || 'N/A'}\n\n${competitorBriefing}\n\n**PAGE DATA:**\n- URL: ${pageData.url}\n- Original Title: "${pageData.title}"\n- Original Description: "${pageData.description}"${socialBriefing}`;
         
         // --- INJECT FEEDBACK from previous failed attempt ---
         if (currentFeedback) {
-            suggestionPrompt += `\n\n⚠️ PREVIOUS ATTEMPT REJECTED. YOU MUST FIX THESE SPECIFIC ERRORS:\n${currentFeedback}\n\nReview your character counts carefully before outputting.`;
+            suggestionPrompt += `\n\n⚠️ PREVIOUS ATTEMPT REJECTED. YOU MUST FIX THESE SPECIFIC ERRORS:\n${currentFeedback}\n\nReview your lengths carefully before outputting: wide letters (W, M, capitals) take more space than narrow ones, so shorten further if needed.`;
         }
 
         suggestionPrompt += `\nYour response MUST be a single, perfectly formatted JSON object containing a 'suggestions' array.`;
@@ -340,11 +754,11 @@ const generateUltraSeoSuggestions = async (pageData: SeoAnalysis, analysisResult
                 const ai = new GoogleGenAI({ apiKey: config.apiKey });
                 const response = await ai.models.generateContent({
                     model: "gemini-2.5-flash", contents: suggestionPrompt,
-                    config: { systemInstruction: systemPrompt, responseMimeType: "application/json", responseSchema: ultraSuggestionSchema, temperature: 0.7 },
+                    config: { systemInstruction: systemPrompt, responseMimeType: "application/json", responseSchema: ultraSuggestionSchema, temperature: 0.7, abortSignal: signal },
                 });
                 result = safeJsonParse<{suggestions: RewriteSuggestion[]}>(response.text);
             } else {
-                result = await executeOpenAiCompatibleRequest<{suggestions: RewriteSuggestion[]}>(providerApiEndpoints[config.provider], config, systemPrompt, suggestionPrompt, 0.7);
+                result = await executeOpenAiCompatibleRequest<{suggestions: RewriteSuggestion[]}>(providerApiEndpoints[config.provider], config, systemPrompt, suggestionPrompt, 0.7, signal);
             }
 
             // --- CRITIC PASS (Validation) ---
@@ -365,6 +779,7 @@ const generateUltraSeoSuggestions = async (pageData: SeoAnalysis, analysisResult
             attempts++;
 
         } catch (e) {
+            if (signal?.aborted) throw e;
             console.warn(`[Reflexion] AI generation/parsing error attempt ${attempts + 1}:`, e);
             currentFeedback = `JSON Parsing Error or API Failure: ${(e as Error).message}. Ensure valid JSON format.`;
             attempts++;
@@ -375,12 +790,12 @@ const generateUltraSeoSuggestions = async (pageData: SeoAnalysis, analysisResult
     return generateFallbackSuggestions(pageData);
 };
 
-export const runFullAnalysisAndSuggestion = async (pageData: SeoAnalysis, config: AiConfig, context: { allPages: SeoData[]; topicCluster?: { url: string; title: string; intent?: string }[] }, serpData: SerpResult[], targetLocation?: string): Promise<{ analysis: AnalysisResult; suggestions: RewriteSuggestion[] }> => {
+export const runFullAnalysisAndSuggestion = async (pageData: SeoAnalysis, config: AiConfig, context: { allPages: SeoData[]; topicCluster?: { url: string; title: string; intent?: string }[] }, serpData: SerpResult[], targetLocation?: string, signal?: AbortSignal): Promise<{ analysis: AnalysisResult; suggestions: RewriteSuggestion[] }> => {
     try {
-        const analysis = await analyzeSeoUltraDeep(pageData, config, context, serpData);
+        const analysis = await analyzeSeoUltraDeep(pageData, config, context, serpData, signal);
         // Optimization: Removed artificial delay. We are now using batched updates in App.tsx
         // await new Promise(r => setTimeout(r, 50)); 
-        const suggestions = await generateUltraSeoSuggestions(pageData, analysis, config, serpData, targetLocation);
+        const suggestions = await generateUltraSeoSuggestions(pageData, analysis, config, serpData, targetLocation, signal);
         
         if (!Array.isArray(suggestions) || suggestions.length === 0) throw new Error("AI returned empty suggestions.");
         
@@ -388,6 +803,7 @@ export const runFullAnalysisAndSuggestion = async (pageData: SeoAnalysis, config
         delete analysisForState.primaryTopic;
         return { analysis: analysisForState, suggestions };
     } catch (error) {
+        if (signal?.aborted) throw error;
         const errorMessage = (error as Error).message;
         console.error(`[SOTA] Pipeline failed for ${pageData.url}:`, errorMessage);
         throw new Error(`AI processing failed: ${errorMessage}`);
@@ -1,6 +1,10 @@
+import { normalizeUrl } from './urlNormalizationService';
+
+// Entries are keyed by the normalised URL, so http/www/slash/tracking variants share one record.
 class CacheService {
   private dbName = 'seo-optimizer-cache';
   private storeName = 'analyses';
+  private embeddingStoreName = 'embeddings';
   private db: IDBDatabase | null = null;
   private initPromise: Promise<void> | null = null;
 
@@ -14,7 +18,7 @@ class CacheService {
         return;
       }
       
-      const request = indexedDB.open(this.dbName, 1);
+      const request = indexedDB.open(this.dbName, 2);
       
       request.onerror = () => reject(request.error);
       request.onsuccess = () => {
@@ -28,6 +32,9 @@ class CacheService {
           const store = db.createObjectStore(this.storeName, { keyPath: 'url' });
           store.createIndex('expires', 'expires');
         }
+        if (!db.objectStoreNames.contains(this.embeddingStoreName)) {
+          db.createObjectStore(this.embeddingStoreName, { keyPath: 'url' });
+        }
       };
     });
     return this.initPromise;
@@ -40,7 +47,7 @@ class CacheService {
         const transaction = this.db!.transaction([this.storeName], 'readwrite');
         const store = transaction.objectStore(this.storeName);
         const request = store.put({
-            url,
+            url: normalizeUrl(url),
             data,
             expires: Date.now() + ttl
         });
@@ -55,7 +62,7 @@ class CacheService {
     return new Promise((resolve) => {
       const transaction = this.db!.transaction([this.storeName], 'readonly');
       const store = transaction.objectStore(this.storeName);
-      const request = store.get(url);
+      const request = store.get(normalizeUrl(url));
       
       request.onsuccess = () => {
         const record = request.result;
@@ -81,7 +88,7 @@ class CacheService {
 
     return new Promise((resolve) => {
         const promises = urls.map(url => new Promise<void>(res => {
-            const request = store.get(url);
+            const request = store.get(normalizeUrl(url));
             request.onsuccess = () => {
                 const record = request.result;
                 if (record && record.expires >= Date.now()) {
@@ -100,14 +107,47 @@ class CacheService {
       await this.init();
       const transaction = this.db!.transaction([this.storeName], 'readwrite');
       const store = transaction.objectStore(this.storeName);
-      store.delete(url);
+      store.delete(normalizeUrl(url));
+  }
+
+  // Embeddings are only reused for the same model and the same embedded text, identified by its hash.
+  async getEmbeddings(urls: string[], model: string): Promise<Map<string, { textHash: string; vector: Float32Array }>> {
+    await this.init();
+    const results = new Map<string, { textHash: string; vector: Float32Array }>();
+    const transaction = this.db!.transaction([this.embeddingStoreName], 'readonly');
+    const store = transaction.objectStore(this.embeddingStoreName);
+
+    await Promise.all(urls.map(url => new Promise<void>(res => {
+      const request = store.get(normalizeUrl(url));
+      request.onsuccess = () => {
+        const record = request.result;
+        if (record && record.model === model && record.expires >= Date.now()) {
+          results.set(url, { textHash: record.textHash, vector: record.vector });
+        }
+        res();
+      };
+      request.onerror = () => res();
+    })));
+    return results;
+  }
+
+  async setEmbeddings(entries: { url: string; textHash: string; vector: Float32Array }[], model: string, ttl: number = 30 * 24 * 60 * 60 * 1000): Promise<void> { // 30 days default
+    await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.embeddingStoreName], 'readwrite');
+      const store = transaction.objectStore(this.embeddingStoreName);
+      entries.forEach(({ url, textHash, vector }) => store.put({ url: normalizeUrl(url), model, textHash, vector, expires: Date.now() + ttl }));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
   }
 
   async clearMany(urls: string[]): Promise<void> {
     await this.init();
     const transaction = this.db!.transaction([this.storeName], 'readwrite');
     const store = transaction.objectStore(this.storeName);
-    urls.forEach(url => store.delete(url));
+    urls.forEach(url => store.delete(normalizeUrl(url)));
   }
 }
 
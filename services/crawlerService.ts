@@ -1,37 +1,47 @@
-import { SeoData, SeoAnalysis, QuickScanResult } from '../types';
-import { robustFetch } from './fetchService';
+import { SeoData, SeoAnalysis, QuickScanResult, CrawlOptions, CrawlScope, InternalLink, IndexabilityVerdict, RedirectHop, SocialMeta, HeadingOutlineItem, SitemapMeta } from '../types';
+import { robustFetch, sleep, wasFetchedDirectly } from './fetchService';
 import { cacheService } from './cacheService';
+import { analyzeStructuredData } from './structuredDataService';
+import { parseRobotsTxt, getRobotsPolicy, isUrlAllowed, RobotsPolicy, EMPTY_ROBOTS_POLICY } from './robotsService';
+import { isInterestingUrl, createScopeMatcher, isScopeEmpty } from './urlScopeService';
+import { normalizeUrl } from './urlNormalizationService';
+import { findNearDuplicateClusters } from './similarityService';
+import { isSerpTextTruncated } from './pixelWidthService';
+import { buildLinkGraph, CrawlCoverage, isSiteRoot, LOW_INLINK_THRESHOLD } from './linkGraphService';
 
-// SOTA: Strict filter to prevent crawling images, assets, and non-html content.
-function isInterestingUrl(url: string): boolean {
-    if (!url) return false;
-    const lower = url.toLowerCase();
-    
-    // Common media and asset extensions to ignore
-    const ignoredExtensions = [
-        '.jpg', '.jpeg', '.png', '.gif', '.webp', '.svg', '.bmp', '.ico', 
-        '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx', '.zip', '.rar',
-        '.css', '.js', '.json', '.xml', // XML should be handled by sitemap parser, not crawled as a page
-        '.mp4', '.mp3', '.avi', '.mov', '.wmv', '.flv', '.mkv'
-    ];
-    
-    try {
-        const urlObj = new URL(url);
-        const pathname = urlObj.pathname.toLowerCase();
-        
-        // Block WP Uploads directory entirely
-        if (pathname.includes('/wp-content/uploads/')) return false;
-        if (pathname.includes('/wp-json/')) return false;
-        
-        if (ignoredExtensions.some(ext => pathname.endsWith(ext))) return false;
-        
-        return true;
-    } catch (e) {
-        return false;
-    }
+// Compares URLs ignoring fragments and a trailing slash, which search engines treat as the same page.
+function isSameUrl(a: string, b: string): boolean {
+    const strip = (u: string) => u.replace(/#.*$/, '').replace(/\/$/, '');
+    return strip(a) === strip(b);
+}
+
+function hasRobotsDirective(page: Pick<SeoData, 'metaRobots' | 'xRobotsTag'>, directive: 'noindex' | 'nofollow'): boolean {
+    const directives = `${page.metaRobots || ''},${page.xRobotsTag || ''}`.toLowerCase();
+    return new RegExp(`\\b(${directive}|none)\\b`).test(directives);
+}
+
+const normalizeText = (text?: string) => (text || '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Social tags that exist but don't match the meta title/description are usually stale copies.
+// Twitter tags fall back to Open Graph when absent, so only present tags are compared.
+function isSocialMetaMismatched(page: SeoData): boolean {
+    const social = page.socialMeta;
+    if (!social) return false;
+    const differs = (tag: string | undefined, meta: string) => !!tag && !!meta && normalizeText(tag) !== normalizeText(meta);
+    return differs(social.ogTitle, page.title) || differs(social.twitterTitle, page.title)
+        || differs(social.ogDescription, page.description) || differs(social.twitterDescription, page.description);
+}
+
+function getIndexability(page: SeoData): IndexabilityVerdict {
+    if (page.httpStatus !== undefined && (page.httpStatus < 200 || page.httpStatus >= 300)) return 'http_error';
+    if (hasRobotsDirective(page, 'noindex')) return 'noindex';
+    if (page.canonicalUrl && !isSameUrl(page.canonicalUrl, page.url)) return 'canonicalised';
+    return 'indexable';
 }
 
-function performQuickScan(pages: SeoData[]): SeoAnalysis[] {
+// `urlVariants` maps each normalised URL to the distinct discovered URLs that collapsed into it.
+// Orphan and low-inlink checks are skipped unless `coverage` shows every page that could link was crawled.
+function performQuickScan(pages: SeoData[], urlVariants: Map<string, string[]> = new Map(), coverage?: CrawlCoverage): SeoAnalysis[] {
     const titleMap = new Map<string, string[]>();
     const descriptionMap = new Map<string, string[]>();
 
@@ -46,17 +56,53 @@ function performQuickScan(pages: SeoData[]): SeoAnalysis[] {
         }
     });
 
+    const nearDuplicateUrls = (field: 'title' | 'description') => new Set(
+        findNearDuplicateClusters(pages.map(page => ({ url: page.url, text: page[field] }))).flatMap(cluster => cluster.urls)
+    );
+    const linkGraph = buildLinkGraph(pages, coverage);
+    const nearDuplicateTitles = nearDuplicateUrls('title');
+    const nearDuplicateDescriptions = nearDuplicateUrls('description');
+
     return pages.map(page => {
         const issues: string[] = [];
+        const isHttpError = page.httpStatus !== undefined && (page.httpStatus < 200 || page.httpStatus >= 300);
+        const redirectHops = page.redirectChain?.length ?? 0;
+        const h1s = page.headings?.filter(h => h.level === 1) ?? [];
+        const variants = urlVariants.get(page.url) ?? [];
+        const inlinks = linkGraph.inbound.get(page.url) ?? [];
+        // Orphan checks need every page's links; the site root is reachable without links.
+        const canJudgeInlinks = linkGraph.isComplete && !isHttpError && !isSiteRoot(page.url);
         const quickScanResult: QuickScanResult = {
-            isTitleMissing: !page.title,
-            isTitleTooLong: page.title.length > 60,
+            // Error pages have no meaningful title/description; their status is the issue.
+            isTitleMissing: !page.title && !isHttpError,
+            isTitleTooLong: isSerpTextTruncated(page.title, 'title'),
             isTitleTooShort: page.title.length > 0 && page.title.length < 30,
-            isDescriptionMissing: !page.description,
-            isDescriptionTooLong: page.description.length > 160,
+            isDescriptionMissing: !page.description && !isHttpError,
+            isDescriptionTooLong: isSerpTextTruncated(page.description, 'description'),
             isDescriptionTooShort: page.description.length > 0 && page.description.length < 70,
             isTitleDuplicate: !!(page.title && titleMap.get(page.title)!.length > 1),
             isDescriptionDuplicate: !!(page.description && descriptionMap.get(page.description)!.length > 1),
+            isTitleNearDuplicate: nearDuplicateTitles.has(page.url),
+            isDescriptionNearDuplicate: nearDuplicateDescriptions.has(page.url),
+            isNoindex: hasRobotsDirective(page, 'noindex'),
+            isNofollow: hasRobotsDirective(page, 'nofollow'),
+            isCanonicalisedElsewhere: !!page.canonicalUrl && !isSameUrl(page.canonicalUrl, page.url),
+            isHttpError,
+            isRedirected: redirectHops > 0,
+            isRedirectChain: redirectHops > 1,
+            isClientError: page.httpStatus !== undefined && page.httpStatus >= 400 && page.httpStatus < 500,
+            isSocialMetaMissing: !!page.socialMeta && !isHttpError && (!page.socialMeta.ogTitle || !page.socialMeta.ogDescription),
+            isOgImageMissing: !!page.socialMeta && !isHttpError && !page.socialMeta.ogImage,
+            isSocialMetaMismatched: !isHttpError && isSocialMetaMismatched(page),
+            isH1Missing: !!page.headings && !isHttpError && h1s.length === 0,
+            isMultipleH1: h1s.length > 1,
+            isStructuredDataInvalid: (page.structuredData?.parseErrors.length ?? 0) > 0,
+            isStructuredDataIncomplete: !!page.structuredData?.items.some(item => item.missingProperties.length > 0),
+            isH1SameAsTitle: h1s.length > 0 && !!page.title && h1s.some(h => normalizeText(h.text) === normalizeText(page.title)),
+            isUrlVariantDuplicate: variants.length > 1,
+            isOrphan: canJudgeInlinks && inlinks.length === 0,
+            isLowInlinks: canJudgeInlinks && inlinks.length > 0 && inlinks.length <= LOW_INLINK_THRESHOLD,
+            indexability: getIndexability(page),
         };
 
         if (quickScanResult.isTitleMissing) issues.push('Missing Title');
@@ -65,9 +111,31 @@ function performQuickScan(pages: SeoData[]): SeoAnalysis[] {
         if (quickScanResult.isDescriptionTooLong) issues.push('Desc Too Long');
         if (quickScanResult.isTitleDuplicate) issues.push('Duplicate Title');
         if (quickScanResult.isDescriptionDuplicate) issues.push('Duplicate Desc');
+        if (quickScanResult.isTitleNearDuplicate) issues.push('Near-Duplicate Title');
+        if (quickScanResult.isDescriptionNearDuplicate) issues.push('Near-Duplicate Desc');
+        if (quickScanResult.isClientError) issues.push('4xx in Sitemap');
+        else if (quickScanResult.isHttpError) issues.push(`HTTP ${page.httpStatus}`);
+        if (quickScanResult.isRedirected) issues.push('Sitemap URL Redirects');
+        if (quickScanResult.isRedirectChain) issues.push('Redirect Chain > 1 Hop');
+        if (quickScanResult.isSocialMetaMissing) issues.push('Missing OG Tags');
+        if (quickScanResult.isOgImageMissing) issues.push('Missing OG Image');
+        if (quickScanResult.isSocialMetaMismatched) issues.push('Social Tags Mismatch');
+        if (quickScanResult.isH1Missing) issues.push('Missing H1');
+        if (quickScanResult.isMultipleH1) issues.push('Multiple H1s');
+        if (quickScanResult.isH1SameAsTitle) issues.push('H1 Same as Title');
+        if (quickScanResult.isStructuredDataInvalid) issues.push('Invalid JSON-LD');
+        if (quickScanResult.isStructuredDataIncomplete) issues.push('Schema Missing Required Props');
+        if (quickScanResult.isNoindex) issues.push('Noindex');
+        if (quickScanResult.isNofollow) issues.push('Nofollow');
+        if (quickScanResult.isCanonicalisedElsewhere) issues.push('Canonicalised Elsewhere');
+        if (quickScanResult.isUrlVariantDuplicate) issues.push('Duplicate URL Variants');
+        if (quickScanResult.isOrphan) issues.push('Orphan Page');
+        if (quickScanResult.isLowInlinks) issues.push('Few Inlinks');
         
         return {
             ...page,
+            urlVariants: variants.length > 1 ? variants : undefined,
+            inlinks: linkGraph.isComplete ? inlinks : undefined,
             status: 'scanned',
             issues,
             quickScan: quickScanResult,
@@ -75,34 +143,146 @@ function performQuickScan(pages: SeoData[]): SeoAnalysis[] {
     });
 }
 
-async function fetchAndParseHtml(url: string): Promise<{ title: string; description: string; content: string }> {
-    const response = await robustFetch(url);
+// Resolves every <a href> in the document against the page URL and keeps same-origin, crawlable links,
+// normalised so they match page URLs. rel="nofollow" links are skipped, as crawlers don't follow them.
+// getAttribute is used instead of .href because a DOMParser document resolves relative to the app, not the page.
+function extractSameOriginLinks(doc: Document, pageUrl: string): InternalLink[] {
+    const origin = new URL(pageUrl).origin;
+    const links = new Map<string, InternalLink>();
+    doc.querySelectorAll('a[href]').forEach(a => {
+        const href = a.getAttribute('href');
+        if (!href || href.startsWith('#') || /^(mailto|tel|javascript):/i.test(href)) return;
+        if (/\bnofollow\b/i.test(a.getAttribute('rel') || '')) return;
+        try {
+            const resolved = new URL(href, pageUrl);
+            resolved.hash = '';
+            if (resolved.origin !== origin || !isInterestingUrl(resolved.href)) return;
+            const url = normalizeUrl(resolved.href);
+            const anchorText = (a.textContent || '').replace(/\s+/g, ' ').trim()
+                || a.querySelector('img[alt]')?.getAttribute('alt')?.trim()
+                || a.getAttribute('aria-label')?.trim()
+                || '';
+            // Keep the first descriptive anchor seen for each target.
+            if (!links.get(url)?.anchorText) links.set(url, { url, anchorText, ...(resolved.href !== url ? { href: resolved.href } : {}) });
+        } catch { /* malformed href */ }
+    });
+    return Array.from(links.values());
+}
+
+const MAX_OUTLINE_HEADINGS = 150;
+
+type ParsedPage = Omit<SeoData, 'url'>;
+
+// A fetched page, plus what its response already told about status and redirects (null when it couldn't tell).
+interface FetchedPage {
+    page: ParsedPage;
+    check: UrlCheck | null;
+}
+
+async function fetchAndParseHtml(url: string, signal?: AbortSignal): Promise<FetchedPage> {
+    // Non-2xx pages are still parsed so their status can be reported instead of the page vanishing.
+    const response = await robustFetch(url, {}, { throwOnHttpError: false, purpose: 'crawl', signal });
     const html = await response.text();
     const parser = new DOMParser();
     const doc = parser.parseFromString(html, 'text/html');
     const title = doc.querySelector('title')?.textContent || '';
     const description = doc.querySelector('meta[name="description"]')?.getAttribute('content') || '';
+    const canonicalHref = doc.querySelector('link[rel="canonical"]')?.getAttribute('href');
+    let canonicalUrl: string | undefined;
+    try {
+        canonicalUrl = canonicalHref ? new URL(canonicalHref, url).href : undefined;
+    } catch { /* malformed canonical */ }
+    const metaRobots = Array.from(doc.querySelectorAll('meta[name="robots" i], meta[name="googlebot" i]'))
+        .map(m => m.getAttribute('content') || '')
+        .filter(Boolean)
+        .join(', ') || undefined;
+    const xRobotsTag = response.headers.get('X-Robots-Tag') || undefined;
+    const metaContent = (selector: string) => doc.querySelector(selector)?.getAttribute('content')?.trim() || undefined;
+    const socialMeta: SocialMeta = {
+        ogTitle: metaContent('meta[property="og:title"]'),
+        ogDescription: metaContent('meta[property="og:description"]'),
+        ogImage: metaContent('meta[property="og:image"]'),
+        twitterTitle: metaContent('meta[name="twitter:title"]'),
+        twitterDescription: metaContent('meta[name="twitter:description"]'),
+        ogSiteName: metaContent('meta[property="og:site_name"]'),
+        articlePublishedTime: metaContent('meta[property="article:published_time"]'),
+    };
+    const iconHref = doc.querySelector('link[rel~="icon" i]')?.getAttribute('href');
+    let faviconUrl: string | undefined;
+    try {
+        faviconUrl = iconHref ? new URL(iconHref, url).href : undefined;
+    } catch { /* malformed icon href */ }
+    const headings: HeadingOutlineItem[] = Array.from(doc.querySelectorAll('h1, h2, h3'))
+        .map(h => ({ level: Number(h.tagName[1]) as HeadingOutlineItem['level'], text: (h.textContent || '').replace(/\s+/g, ' ').trim() }))
+        .filter(h => h.text)
+        .slice(0, MAX_OUTLINE_HEADINGS);
+    const structuredData = analyzeStructuredData(
+        Array.from(doc.querySelectorAll('script[type="application/ld+json"]')).map(script => script.textContent || '')
+    );
+    const outboundLinks = hasRobotsDirective({ metaRobots, xRobotsTag }, 'nofollow') ? [] : extractSameOriginLinks(doc, url);
     const mainContentElement = doc.querySelector('main, article, [role="main"]');
     // FIX: Cast to HTMLElement to access innerText property, which is not on the base Element type.
     let contentText = ((mainContentElement as HTMLElement) || doc.body).innerText.replace(/\s\s+/g, ' ').trim();
-    return { title, description, content: contentText.substring(0, 25000) };
+    const page = { title, description, content: contentText.substring(0, 25000), canonicalUrl, metaRobots, xRobotsTag, httpStatus: response.status, socialMeta, faviconUrl, headings, structuredData, outboundLinks };
+    return { page, check: checkFromPageResponse(response, url) };
+}
+
+// Parsed robots.txt policies, keyed by origin, so each site's file is fetched once per session.
+const robotsPolicyCache = new Map<string, Promise<RobotsPolicy>>();
+// Earliest time the next request to an origin may start, for honouring Crawl-delay.
+const nextCrawlSlot = new Map<string, number>();
+// Longer delays are capped: Crawl-delay: 60 on 2,000 URLs would otherwise be a 33-hour crawl.
+const MAX_CRAWL_DELAY_MS = 10000;
+
+const effectiveCrawlDelay = (policy: RobotsPolicy) => Math.min(policy.crawlDelayMs, MAX_CRAWL_DELAY_MS);
+
+function getRobotsPolicyForUrl(url: string, signal?: AbortSignal): Promise<RobotsPolicy> {
+    const origin = new URL(url).origin;
+    if (!robotsPolicyCache.has(origin)) {
+        const pending = (async () => {
+            try {
+                const response = await robustFetch(`${origin}/robots.txt`, {}, { purpose: 'crawl', signal });
+                return getRobotsPolicy(parseRobotsTxt(await response.text()));
+            } catch (error) {
+                if (signal?.aborted) throw error;
+                return EMPTY_ROBOTS_POLICY; // No robots.txt means no restrictions
+            }
+        })();
+        robotsPolicyCache.set(origin, pending);
+        // A stopped fetch learned nothing about the file, so the next run asks again.
+        pending.catch(() => robotsPolicyCache.delete(origin));
+    }
+    return robotsPolicyCache.get(origin)!;
 }
 
-async function findSitemaps(siteUrl: string): Promise<string[]> {
-    const sitemaps = new Set<string>();
+// Waits until the origin's Crawl-delay allows another request. Slots are reserved synchronously
+// so concurrent workers queue up behind each other instead of all firing at once. When the signal
+// aborts, the reservations queued behind it are handed back so the next run doesn't wait them out.
+async function waitForCrawlSlot(url: string, signal?: AbortSignal): Promise<void> {
+    const crawlDelayMs = effectiveCrawlDelay(await getRobotsPolicyForUrl(url, signal));
+    if (!crawlDelayMs) return;
+    const origin = new URL(url).origin;
+    const now = Date.now();
+    const slot = Math.max(now, nextCrawlSlot.get(origin) ?? 0);
+    nextCrawlSlot.set(origin, slot + crawlDelayMs);
+    if (slot <= now) return;
     try {
-        const response = await robustFetch(new URL('/robots.txt', siteUrl).href);
-        const text = await response.text();
-        const matches = text.matchAll(/^Sitemap:\s*(.*)/gim);
-        for (const match of matches) sitemaps.add(match[1].trim());
-    } catch (e) { /* silent fail */ }
+        await sleep(slot - now, signal);
+    } catch (error) {
+        nextCrawlSlot.set(origin, Math.min(nextCrawlSlot.get(origin)!, Date.now() + crawlDelayMs));
+        throw error;
+    }
+}
+
+async function findSitemaps(siteUrl: string, signal?: AbortSignal): Promise<string[]> {
+    const sitemaps = new Set<string>((await getRobotsPolicyForUrl(siteUrl, signal)).sitemaps);
     if (sitemaps.size > 0) return Array.from(sitemaps);
     
-    const commonPaths = ['/sitemap.xml', '/sitemap_index.xml', '/wp-sitemap.xml'];
+    const commonPaths = ['/sitemap.xml', '/sitemap_index.xml', '/wp-sitemap.xml', '/sitemap.xml.gz'];
     const pathChecks = await Promise.all(commonPaths.map(async path => {
         try {
             const url = new URL(path, siteUrl).href;
-            const res = await robustFetch(url, {}, { throwOnHttpError: false });
+            const res = await robustFetch(url, {}, { throwOnHttpError: false, purpose: 'crawl', signal });
             if (res.ok) return url;
         } catch {}
         return null;
@@ -110,44 +290,112 @@ async function findSitemaps(siteUrl: string): Promise<string[]> {
     return pathChecks.filter((url): url is string => !!url);
 }
 
-async function parseSitemap(sitemapXml: string, sitemapUrl: string): Promise<string[]> {
+// A page URL from a sitemap together with its optional <lastmod>/<priority>/<changefreq>.
+type SitemapEntry = { url: string } & SitemapMeta;
+
+// A sitemap file is either an index pointing at child sitemaps or a urlset listing pages.
+type ParsedSitemap = { kind: 'index'; sitemaps: string[] } | { kind: 'urlset'; entries: SitemapEntry[] };
+
+const SITEMAP_CONCURRENCY = 4;
+const MAX_SITEMAP_INDEX_DEPTH = 3;
+
+const childText = (el: Element, name: string) => Array.from(el.children).find(c => c.localName === name)?.textContent?.trim() || undefined;
+
+function parseSitemap(sitemapXml: string, sitemapUrl: string): ParsedSitemap {
     const parser = new DOMParser();
     const doc = parser.parseFromString(sitemapXml, "application/xml");
     if (doc.querySelector("parsererror")) throw new Error(`XML malformed in ${sitemapUrl}`);
     
-    // SOTA Fix: Only select <loc> elements that are direct children of <url> or <sitemap>
+    // Only read <loc> elements that are direct children of <url> or <sitemap>.
     // This prevents selecting <image:loc> inside <image:image> which are assets, not pages.
-    // However, DOMParser with namespaces can be tricky.
-    // A robust way is to select all 'loc' and filter their text content.
-    
-    const allLocs = Array.from(doc.querySelectorAll('loc'));
-    
-    const urls = allLocs
-        .map(loc => loc.textContent || '')
-        .filter(url => url && isInterestingUrl(url)); // Apply Strict Filter immediately
+    const entries = Array.from(doc.documentElement.children).filter(el => el.localName === 'url' || el.localName === 'sitemap');
     
     if (doc.documentElement.localName === 'sitemapindex') {
-        const nestedUrls = await Promise.all(urls.map(async (nestedUrl) => {
-            try {
-                const res = await robustFetch(nestedUrl);
-                return parseSitemap(await res.text(), nestedUrl);
-            } catch { return []; }
-        }));
-        return nestedUrls.flat();
+        // Nested locations are sitemaps (.xml), so the page filter must not be applied to them.
+        return { kind: 'index', sitemaps: entries.map(el => childText(el, 'loc')).filter((loc): loc is string => !!loc) };
+    }
+
+    return {
+        kind: 'urlset',
+        entries: entries
+            .map(el => {
+                const priority = parseFloat(childText(el, 'priority') || '');
+                return {
+                    url: childText(el, 'loc') || '',
+                    lastmod: childText(el, 'lastmod'),
+                    priority: isNaN(priority) ? undefined : priority,
+                    changefreq: childText(el, 'changefreq'),
+                };
+            })
+            .filter(entry => entry.url && isInterestingUrl(entry.url)), // Apply Strict Filter immediately
+    };
+}
+
+// Fetches a sitemap body, inflating it when it is gzipped (e.g. sitemap.xml.gz). The gzip magic bytes are
+// checked rather than the extension: if the server sent Content-Encoding: gzip, the browser already inflated it.
+async function fetchSitemapXml(loc: string, signal?: AbortSignal): Promise<string> {
+    const response = await robustFetch(loc, {}, { purpose: 'crawl', signal });
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+        const inflated = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+        return new Response(inflated).text();
     }
-    return urls;
+    return new TextDecoder().decode(bytes);
 }
 
-async function processUrlsWithConcurrency<T>(urls: string[], asyncFn: (url: string) => Promise<T | null>, concurrencyLimit: number, onProgress: (crawled: number, total: number) => void): Promise<(T | null)[]> {
+/**
+ * Fetches sitemaps a few at a time, expanding nested indexes level by level and reporting progress as it goes.
+ * When the top-level locations turn out to be indexes, `onSelectSitemaps` may narrow their child sitemaps
+ * before any of them are downloaded. Sitemaps that fail to fetch or parse are skipped.
+ */
+async function collectSitemapEntries(locations: string[], onStatusUpdate: (message: string) => void, onSelectSitemaps?: (sitemaps: string[]) => Promise<string[]>, signal?: AbortSignal): Promise<SitemapEntry[]> {
+    const entries: SitemapEntry[] = [];
+    const seen = new Set<string>();
+    let pending = locations;
+
+    for (let depth = 0; pending.length > 0 && depth <= MAX_SITEMAP_INDEX_DEPTH; depth++) {
+        const batch = pending.filter(loc => !seen.has(loc));
+        batch.forEach(loc => seen.add(loc));
+        const nested = new Set<string>();
+
+        await processUrlsWithConcurrency(batch, async loc => {
+            const parsed = parseSitemap(await fetchSitemapXml(loc, signal), loc);
+            // Loops instead of push(...spread): a single sitemap can list 50,000 entries.
+            if (parsed.kind === 'index') {
+                for (const child of parsed.sitemaps) nested.add(child);
+            } else {
+                for (const entry of parsed.entries) entries.push(entry);
+            }
+            return null;
+        }, SITEMAP_CONCURRENCY, (done, total) => {
+            onStatusUpdate(`Parsed ${done}/${total} sitemaps · ${entries.length.toLocaleString()} URLs found...`);
+        }, (loc, error) => onStatusUpdate(`Skipped sitemap ${loc}. ${error.message}`), signal);
+
+        pending = Array.from(nested);
+        if (signal?.aborted) break;
+        if (depth === 0 && pending.length > 1 && onSelectSitemaps) {
+            onStatusUpdate(`Found ${pending.length} child sitemaps. Waiting for selection...`);
+            pending = await onSelectSitemaps(pending);
+        }
+    }
+    return entries;
+}
+
+// Runs asyncFn over the URLs with a fixed number of workers. Once the signal aborts, workers stop picking up
+// URLs and the results gathered so far are returned.
+async function processUrlsWithConcurrency<T>(urls: string[], asyncFn: (url: string) => Promise<T | null>, concurrencyLimit: number, onProgress: (crawled: number, total: number) => void, onError?: (url: string, error: Error) => void, signal?: AbortSignal): Promise<(T | null)[]> {
     const results: (T | null)[] = [];
     let i = 0;
     const worker = async () => {
-        while (i < urls.length) {
+        while (i < urls.length && !signal?.aborted) {
             const url = urls[i++];
             if (url) {
                 try {
                     results.push(await asyncFn(url));
-                } catch { results.push(null); }
+                } catch (error) {
+                    results.push(null);
+                    if (!signal?.aborted) onError?.(url, error as Error);
+                }
                 onProgress(results.length, urls.length);
             }
         }
@@ -156,29 +404,194 @@ async function processUrlsWithConcurrency<T>(urls: string[], asyncFn: (url: stri
     return results;
 }
 
-async function validateUrl(url: string): Promise<string | null> {
+const MAX_REDIRECT_HOPS = 10;
+
+// The outcome of checking a URL's HTTP status and redirects before crawling its content.
+interface UrlCheck {
+    httpStatus?: number;
+    redirectChain: RedirectHop[];
+    redirectTraceUnknown?: boolean;
+    finalUrl?: string;
+    contentType: string | null;
+}
+
+// HEAD, or GET for servers that refuse HEAD.
+async function fetchHeadOrGet(url: string, options: RequestInit, signal?: AbortSignal, proxiesOnly = false): Promise<Response> {
+    const config = { throwOnHttpError: false, purpose: 'crawl' as const, signal, proxiesOnly };
+    const res = await robustFetch(url, { ...options, method: 'HEAD' }, config);
+    return res.status === 405 || res.status === 501 ? robustFetch(url, options, config) : res;
+}
+
+// The bundled proxy follows redirects itself and reports every hop in X-Redirect-Hops. Other proxies
+// follow them silently, so their answer only tells the final status.
+function readProxiedTrace(res: Response, url: string, redirectChain: RedirectHop[], redirected: boolean): UrlCheck {
+    const contentType = res.headers.get('Content-Type');
+    const hops = res.headers.get('X-Redirect-Hops');
+    if (hops === null) {
+        return { httpStatus: res.status, redirectChain: redirected ? [...redirectChain, { url }] : redirectChain, redirectTraceUnknown: true, finalUrl: res.headers.get('X-Final-Url') ?? undefined, contentType };
+    }
+    return { httpStatus: res.status, redirectChain: [...redirectChain, ...JSON.parse(hops) as RedirectHop[]], finalUrl: res.headers.get('X-Final-Url') ?? url, contentType };
+}
+
+// A page's own GET answers the redirect check when it went direct without redirects, or through the bundled
+// proxy. A direct fetch that followed redirects hides the hops, so that page still needs tracing.
+function checkFromPageResponse(res: Response, url: string): UrlCheck | null {
+    if (wasFetchedDirectly(res)) {
+        return res.redirected ? null : { httpStatus: res.status, redirectChain: [], finalUrl: url, contentType: res.headers.get('Content-Type') };
+    }
+    return res.headers.has('X-Redirect-Hops') ? readProxiedTrace(res, url, [], false) : null;
+}
+
+/**
+ * Follows a URL's redirects one hop at a time (redirect: 'manual') to record each hop and the final status.
+ * Browsers hide redirects from manual fetches (an 'opaqueredirect' response with no status or Location), so
+ * those are traced again through a proxy. When no proxy can report the hops, the check says the trace is
+ * unknown rather than guessing a single hop.
+ */
+async function traceUrl(url: string, signal?: AbortSignal): Promise<UrlCheck> {
+    const redirectChain: RedirectHop[] = [];
+    let current = url;
+
+    for (let hop = 0; hop <= MAX_REDIRECT_HOPS; hop++) {
+        const res = await fetchHeadOrGet(current, { redirect: 'manual' }, signal);
+
+        if (res.type === 'opaqueredirect') {
+            try {
+                return readProxiedTrace(await fetchHeadOrGet(current, {}, signal, true), current, redirectChain, true);
+            } catch (error) {
+                if (signal?.aborted) throw error;
+                return { redirectChain: [...redirectChain, { url: current }], redirectTraceUnknown: true, contentType: null };
+            }
+        }
+        if (!wasFetchedDirectly(res)) return readProxiedTrace(res, current, redirectChain, false);
+
+        // Only reachable outside browsers, which expose manual redirects.
+        const location = res.headers.get('Location');
+        if (res.status >= 300 && res.status < 400 && location) {
+            redirectChain.push({ url: current, status: res.status });
+            current = new URL(location, current).href;
+            continue;
+        }
+
+        return { httpStatus: res.status, redirectChain, finalUrl: current, contentType: res.headers.get('Content-Type') };
+    }
+    throw new Error(`Too many redirects for ${url}`);
+}
+
+// `known` is a check already answered by fetching the page, which saves tracing it again.
+async function validateUrl(url: string, signal?: AbortSignal, known?: UrlCheck): Promise<UrlCheck | null> {
     if (!isInterestingUrl(url)) return null;
     try {
-        const res = await robustFetch(url, { method: 'HEAD' });
-        const contentType = res.headers.get('Content-Type');
-        return contentType && contentType.includes('text/html') ? url : null;
-    } catch { 
-        // If HEAD fails, we used to optimistically include it. 
-        // But for SOTA efficiency, if HEAD fails, we skip unless we are very sure.
-        // Let's assume valid if robustFetch didn't throw network error, but we can't confirm type.
-        // We'll rely on the extension filter to keep us safe.
-        return url; 
+        const check = known ?? await traceUrl(url, signal);
+        const isOk = check.httpStatus !== undefined && check.httpStatus >= 200 && check.httpStatus < 300;
+        if (isOk && check.contentType && !check.contentType.includes('text/html')) return null;
+        return check;
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        // Every route failed at the network level, so the status is unknown.
+        // Keep the URL and let the content fetch decide; the extension filter keeps assets out.
+        return { redirectChain: [], finalUrl: url, contentType: null };
     } 
 }
 
-async function fetchAndParseSitemapLocation(loc: string): Promise<string[]> {
-    const response = await robustFetch(loc);
-    return await parseSitemap(await response.text(), loc);
+const DEFAULT_MAX_CRAWL_DEPTH = 3;
+const DEFAULT_MAX_CRAWL_PAGES = 500;
+
+/**
+ * Breadth-first link discovery for sites without a usable sitemap.
+ * Starts at the given URL, follows same-origin <a href> links level by level,
+ * and stops at maxDepth or once maxPages URLs have been discovered.
+ * Pages are fetched as linked; the normalised URL only decides whether a page was already found.
+ * @returns A map of normalised URL -> the URL as discovered, its crawl depth (0 = start page) and, for pages
+ *          whose links were followed, the fetched page so the scan doesn't request it again.
+ */
+async function discoverUrlsByLinks(startUrl: string, maxDepth: number, maxPages: number, onStatusUpdate: (message: string) => void, scope?: CrawlScope, signal?: AbortSignal): Promise<Map<string, { url: string; depth: number; fetched?: FetchedPage }>> {
+    // Excluded URLs are neither fetched nor counted towards maxPages. Include rules are applied at scan
+    // time instead, since in-scope pages are usually only reachable through out-of-scope ones (e.g. the homepage).
+    const isNotExcluded = createScopeMatcher({ include: [], exclude: scope?.exclude || [] });
+    const found = new Map<string, { url: string; depth: number; fetched?: FetchedPage }>();
+    found.set(normalizeUrl(startUrl), { url: startUrl, depth: 0 });
+
+    const robotsPolicy = await getRobotsPolicyForUrl(startUrl, signal);
+    let frontier = [startUrl];
+    for (let depth = 0; depth < maxDepth && frontier.length > 0 && found.size < maxPages && !signal?.aborted; depth++) {
+        onStatusUpdate(`Following links at depth ${depth + 1} (${found.size} pages found)...`);
+        const linkLists = await processUrlsWithConcurrency(frontier, async (url) => {
+            await waitForCrawlSlot(url, signal);
+            const fetched = await fetchAndParseHtml(url, signal);
+            found.get(normalizeUrl(url))!.fetched = fetched;
+            return fetched.page.outboundLinks;
+        }, 10, () => {}, undefined, signal);
+
+        const next: string[] = [];
+        for (const links of linkLists) {
+            for (const link of links || []) {
+                if (found.size >= maxPages) break;
+                const discovered = link.href ?? link.url;
+                if (found.has(link.url) || !isUrlAllowed(robotsPolicy, discovered) || !isNotExcluded(link.url)) continue;
+                found.set(link.url, { url: discovered, depth: depth + 1 });
+                next.push(discovered);
+            }
+        }
+        frontier = next;
+    }
+    return found;
 }
 
-export const processAndScanUrls = async (urls: string[], onProgress: (crawled: number, total: number) => void, onStatusUpdate: (message: string) => void): Promise<SeoAnalysis[]> => {
-    // Stage 1: Filter Junk
-    const uniqueUrls = Array.from(new Set(urls.filter(isInterestingUrl)));
+// Per-URL facts learned while discovering URLs, merged onto the scan results.
+interface DiscoveryMeta {
+    crawlDepths?: Map<string, number>;
+    fetchedPages?: Map<string, FetchedPage>; // Already fetched while following links
+    sitemapMeta?: Map<string, SitemapMeta>;
+}
+
+/**
+ * Validates, fetches and quick-scans the given URLs. When the signal aborts, no further pages are fetched and
+ * the pages scanned so far (plus cached ones) are returned.
+ */
+export const processAndScanUrls = async (urls: string[], onProgress: (crawled: number, total: number) => void, onStatusUpdate: (message: string) => void, discovery: DiscoveryMeta = {}, scope?: CrawlScope, signal?: AbortSignal): Promise<SeoAnalysis[]> => {
+    // Stage 1: Filter Junk, collapse URL variants and apply the crawl scope
+    const urlVariants = new Map<string, string[]>();
+    urls.filter(isInterestingUrl).forEach(url => {
+        const key = normalizeUrl(url);
+        const variants = urlVariants.get(key) ?? [];
+        if (!variants.includes(url)) variants.push(url);
+        urlVariants.set(key, variants);
+    });
+    const interestingUrls = Array.from(urlVariants.keys());
+    // Pages are keyed, deduplicated and cached by their normalised URL, but fetched as discovered.
+    const discoveredUrlOf = (url: string) => urlVariants.get(url)?.[0] ?? url;
+    const collapsedCount = Array.from(urlVariants.values()).reduce((sum, variants) => sum + variants.length - 1, 0);
+    if (collapsedCount > 0) onStatusUpdate(`Collapsed ${collapsedCount} URL variants (protocol, www, slash or tracking parameters).`);
+    const isInScope = createScopeMatcher(scope);
+    const candidateUrls = interestingUrls.filter(isInScope);
+    if (!isScopeEmpty(scope)) {
+        onStatusUpdate(`Crawl scope kept ${candidateUrls.length} of ${interestingUrls.length} URLs.`);
+        if (candidateUrls.length === 0) throw new Error("No URLs matched the crawl scope rules.");
+    }
+
+    // Stage 2: robots.txt. Blocked URLs are not fetched, but are kept in the results so
+    // sitemap entries that robots.txt disallows show up as an issue in their own right.
+    onStatusUpdate(`Checking robots.txt rules...`);
+    const origins = Array.from(new Set(candidateUrls.map(url => new URL(discoveredUrlOf(url)).origin)));
+    const policies = new Map(await Promise.all(origins.map(async origin => [origin, await getRobotsPolicyForUrl(origin, signal)] as const)));
+    const uniqueUrls: string[] = [];
+    const blockedResults: SeoAnalysis[] = [];
+    candidateUrls.forEach(url => {
+        const discovered = discoveredUrlOf(url);
+        if (isUrlAllowed(policies.get(new URL(discovered).origin)!, discovered)) {
+            uniqueUrls.push(url);
+        } else {
+            blockedResults.push({ url, title: '', description: '', content: '', status: 'blocked', issues: ['Blocked by robots.txt'] });
+        }
+    });
+
+    const maxCrawlDelay = Math.max(0, ...Array.from(policies.values()).map(p => p.crawlDelayMs));
+    if (maxCrawlDelay > MAX_CRAWL_DELAY_MS) {
+        onStatusUpdate(`robots.txt requests a ${maxCrawlDelay / 1000}s crawl delay; waiting ${MAX_CRAWL_DELAY_MS / 1000}s between requests instead (up to ${Math.ceil(uniqueUrls.length * 2 * MAX_CRAWL_DELAY_MS / 60000)} minutes, as each page may take a check and a fetch).`);
+    } else if (maxCrawlDelay > 0) {
+        onStatusUpdate(`robots.txt requests a ${maxCrawlDelay / 1000}s crawl delay. Requests will be throttled.`);
+    }
     onStatusUpdate(`Validating ${uniqueUrls.length} potentially valid URLs...`);
     
     // Check which URLs are NOT in cache
@@ -196,64 +609,109 @@ export const processAndScanUrls = async (urls: string[], onProgress: (crawled: n
     });
     
     let processedResults: SeoData[] = [];
+    const droppedUrls = new Set(blockedResults.map(r => r.url));
 
     if (urlsToProcess.length > 0) {
         onStatusUpdate(`Validating ${urlsToProcess.length} new URLs (found ${cachedResults.length} in cache)...`);
         
         // Validate new URLs (HEAD check)
-        const validationResults = await processUrlsWithConcurrency(urlsToProcess, validateUrl, 20, (c,t) => { /* internal validation progress */ });
-        const validPageUrls = validationResults.filter((r): r is string => r !== null);
+        const urlChecks = new Map<string, UrlCheck>();
+        await processUrlsWithConcurrency(urlsToProcess, async (url) => {
+            const known = discovery.fetchedPages?.get(url)?.check ?? undefined;
+            if (!known) await waitForCrawlSlot(discoveredUrlOf(url), signal);
+            const check = await validateUrl(discoveredUrlOf(url), signal, known);
+            if (check) urlChecks.set(url, check);
+            else droppedUrls.add(url);
+            return check;
+        }, 20, (c,t) => { /* internal validation progress */ }, undefined, signal);
+        // Once stopped, nothing more is fetched: only cached pages are kept.
+        const validPageUrls = signal?.aborted ? [] : urlsToProcess.filter(url => urlChecks.has(url));
         
         onStatusUpdate(`Crawling content from ${validPageUrls.length} pages...`);
         
-        const crawlFn = async (url: string) => {
+        const crawlFn = async (url: string): Promise<SeoData> => {
             const cached = await cacheService.get(url);
             if (cached) return cached as SeoData;
 
-            const data = await fetchAndParseHtml(url);
-            const seoData = { ...data, url };
+            const { httpStatus, redirectChain, redirectTraceUnknown, finalUrl } = urlChecks.get(url)!;
+            // Error pages are reported from their status alone; there is no content worth fetching.
+            if (httpStatus !== undefined && httpStatus >= 400) {
+                return { url, title: '', description: '', content: '', httpStatus, redirectChain, redirectTraceUnknown, finalUrl };
+            }
+
+            let data = discovery.fetchedPages?.get(url)?.page;
+            if (!data) {
+                await waitForCrawlSlot(discoveredUrlOf(url), signal);
+                data = (await fetchAndParseHtml(discoveredUrlOf(url), signal)).page;
+            }
+            const seoData = { ...data, url, redirectChain, redirectTraceUnknown, finalUrl };
             return seoData;
         };
 
+        const failures: { url: string; error: Error }[] = [];
         const results = await processUrlsWithConcurrency(validPageUrls, crawlFn, 10, (current, total) => {
              onProgress(cachedResults.length + current, uniqueUrls.length);
-        });
+        }, (url, error) => failures.push({ url, error }), signal);
         processedResults = results.filter((r): r is SeoData => r !== null);
+        if (failures.length > 0) {
+            failures.forEach(({ url, error }) => console.warn(`Could not crawl ${url}: ${error.message}`));
+            onStatusUpdate(`${failures.length} pages could not be fetched and were left out. First failure: ${failures[0].url}. ${failures[0].error.message}`);
+        }
     } else {
         onStatusUpdate(`Loaded all ${uniqueUrls.length} URLs from high-speed cache.`);
         onProgress(uniqueUrls.length, uniqueUrls.length);
     }
     
     const allSeoData = [...cachedResults, ...processedResults];
+    if (signal?.aborted) onStatusUpdate(`Stopped. Keeping the ${allSeoData.length} pages scanned so far.`);
     
     onStatusUpdate(`Performing initial SEO audit...`);
-    return performQuickScan(allSeoData);
+    const scanned = [...performQuickScan(allSeoData, urlVariants, { knownUrls: interestingUrls, droppedUrls }), ...blockedResults];
+    const { crawlDepths, sitemapMeta } = discovery;
+    if (!crawlDepths && !sitemapMeta) return scanned;
+    return scanned.map(page => ({
+        ...page,
+        ...(crawlDepths?.has(page.url) ? { crawlDepth: crawlDepths.get(page.url) } : {}),
+        ...(sitemapMeta?.has(page.url) ? { sitemapMeta: sitemapMeta.get(page.url) } : {}),
+    }));
 };
 
-export const crawlSite = async (url: string, sitemapUrl?: string, onProgress: (c: number, t: number) => void = () => {}, onStatusUpdate: (m: string) => void = () => {}): Promise<SeoAnalysis[]> => {
-    let allUrls: string[] = [];
-    if (sitemapUrl) {
-        onStatusUpdate(`Fetching sitemap: ${sitemapUrl}`);
-        try {
-            allUrls = await fetchAndParseSitemapLocation(sitemapUrl);
-        } catch (e) {
-            onStatusUpdate(`Provided sitemap failed. Trying auto-discovery...`);
+export const crawlSite = async (url: string, sitemapUrl?: string, onProgress: (c: number, t: number) => void = () => {}, onStatusUpdate: (m: string) => void = () => {}, options: CrawlOptions = {}, onSelectSitemaps?: (sitemaps: string[]) => Promise<string[]>, signal?: AbortSignal): Promise<SeoAnalysis[]> => {
+    const { mode = 'auto', maxDepth = DEFAULT_MAX_CRAWL_DEPTH, maxPages = DEFAULT_MAX_CRAWL_PAGES, scope } = options;
+    let sitemapEntries: SitemapEntry[] = [];
+
+    if (mode !== 'links') {
+        if (sitemapUrl) {
+            onStatusUpdate(`Fetching sitemap: ${sitemapUrl}`);
+            sitemapEntries = await collectSitemapEntries([sitemapUrl], onStatusUpdate, onSelectSitemaps, signal);
+            if (sitemapEntries.length === 0) onStatusUpdate(`Provided sitemap failed. Trying auto-discovery...`);
         }
-    }
 
-    if (allUrls.length === 0) {
-        onStatusUpdate(`Discovering sitemaps...`);
-        const sitemapLocations = await findSitemaps(url);
-        if (sitemapLocations.length > 0) {
-            onStatusUpdate(`Found ${sitemapLocations.length} sitemaps. Parsing...`);
-            const results = await Promise.allSettled(sitemapLocations.map(fetchAndParseSitemapLocation));
-            allUrls = results.filter(r => r.status === 'fulfilled').flatMap(r => (r as PromiseFulfilledResult<string[]>).value);
+        if (sitemapEntries.length === 0 && !signal?.aborted) {
+            onStatusUpdate(`Discovering sitemaps...`);
+            const sitemapLocations = await findSitemaps(url, signal);
+            if (sitemapLocations.length > 0) {
+                onStatusUpdate(`Found ${sitemapLocations.length} sitemaps. Parsing...`);
+                sitemapEntries = await collectSitemapEntries(sitemapLocations, onStatusUpdate, onSelectSitemaps, signal);
+            }
         }
     }
-    
-    if (allUrls.length === 0) {
+    // Stopped while discovering URLs: nothing has been scanned yet, so there is nothing to keep.
+    signal?.throwIfAborted();
+
+    if (sitemapEntries.length === 0 && mode !== 'sitemap') {
+        onStatusUpdate(mode === 'auto' ? `No usable sitemap. Following links from ${url}...` : `Following links from ${url}...`);
+        const found = await discoverUrlsByLinks(url, maxDepth, maxPages, onStatusUpdate, scope, signal);
+        signal?.throwIfAborted();
+        const crawlDepths = new Map(Array.from(found, ([key, { depth }]) => [key, depth]));
+        const fetchedPages = new Map(Array.from(found).filter(([, f]) => f.fetched).map(([key, f]) => [key, f.fetched!]));
+        return processAndScanUrls(Array.from(found.values(), f => f.url), onProgress, onStatusUpdate, { crawlDepths, fetchedPages }, scope, signal);
+    }
+
+    if (sitemapEntries.length === 0) {
       throw new Error("Sitemap discovery failed. Could not find any URLs to process.");
     }
     
-    return processAndScanUrls(allUrls, onProgress, onStatusUpdate);
+    const sitemapMeta = new Map<string, SitemapMeta>(sitemapEntries.map(({ url, ...meta }) => [normalizeUrl(url), meta]));
+    return processAndScanUrls(sitemapEntries.map(e => e.url), onProgress, onStatusUpdate, { sitemapMeta }, scope, signal);
 };
\ No newline at end of file
@@ -1,79 +1,426 @@
+// services/fetchService.ts
+import { FetchProxy, FetchPurpose, RouteHealth } from '../types';
 
-
-// A structured list of CORS proxies, defining how to construct the request URL for each.
-const PROXIES = [
-    { type: 'direct', endpoint: null, name: 'direct connection' },
+// Public proxies are only trusted with page fetches by default; API calls carry keys and credentials.
+// Requests carrying secrets skip every proxy that isn't marked trusted, whatever its purpose flags say.
+export const DEFAULT_PROXIES: FetchProxy[] = [
     // Prioritize more reliable proxies first
-    { type: 'query_param', endpoint: 'https://api.allorigins.win/raw?url=', name: 'api.allorigins.win' },
-    { type: 'prefix', endpoint: 'https://corsproxy.io/?', name: 'corsproxy.io' },
-    { type: 'prefix', endpoint: 'https://cors.sh/', name: 'cors.sh' },
-    { type: 'prefix', endpoint: 'https://proxy.cors.sh/', name: 'proxy.cors.sh' },
+    { id: 'allorigins', type: 'query_param', endpoint: 'https://api.allorigins.win/raw?url=', name: 'api.allorigins.win', enabled: true, useForCrawl: true, useForApi: false, trusted: false },
+    { id: 'corsproxy', type: 'prefix', endpoint: 'https://corsproxy.io/?', name: 'corsproxy.io', enabled: true, useForCrawl: true, useForApi: false, trusted: false },
+    { id: 'cors-sh', type: 'prefix', endpoint: 'https://cors.sh/', name: 'cors.sh', enabled: true, useForCrawl: true, useForApi: false, trusted: false },
+    { id: 'proxy-cors-sh', type: 'prefix', endpoint: 'https://proxy.cors.sh/', name: 'proxy.cors.sh', enabled: true, useForCrawl: true, useForApi: false, trusted: false },
+    // The bundled proxy (proxy/corsProxy.mjs), mounted on the Vite dev server or run with `npm run proxy`.
+    { id: 'local', type: 'query_param', endpoint: '/cors-proxy?url=', name: 'Local proxy (dev server)', enabled: false, useForCrawl: true, useForApi: true, trusted: true },
 ];
 
+const STORAGE_KEY = 'fetchProxies';
+
+let proxyCache: FetchProxy[] | null = null;
+
+export function getProxies(): FetchProxy[] {
+    if (proxyCache) return proxyCache;
+    let proxies = DEFAULT_PROXIES;
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        if (saved) proxies = JSON.parse(saved);
+    } catch { /* corrupt or unavailable storage, use defaults */ }
+    proxyCache = proxies;
+    return proxies;
+}
+
+export function saveProxies(proxies: FetchProxy[]): void {
+    proxyCache = proxies;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(proxies));
+}
+
+const buildProxyUrl = (proxy: FetchProxy, url: string) =>
+    proxy.type === 'query_param' ? `${proxy.endpoint}${encodeURIComponent(url)}` : `${proxy.endpoint}${url}`;
+
+// Headers and query parameters that carry credentials. Anything matching must not reach an untrusted proxy.
+const SECRET_HEADERS = ['Authorization', 'Proxy-Authorization', 'X-Api-Key', 'Api-Key', 'X-Goog-Api-Key', 'Cookie'];
+const SECRET_PARAMS = ['key', 'api_key', 'apikey', 'access_token', 'token', 'password', 'app_password'];
+
+export interface RequestSensitivity {
+    sensitive: boolean;
+    secrets: string[]; // Human-readable list of what makes the request sensitive, e.g. "Authorization header"
+}
+
+/**
+ * Classifies a request by whether it carries secrets: credential headers, credential query parameters
+ * or user:password in the URL.
+ */
+export function classifyRequest(url: string, options: RequestInit = {}): RequestSensitivity {
+    const secrets: string[] = [];
+    const headers = new Headers(options.headers);
+    SECRET_HEADERS.forEach(name => {
+        if (headers.has(name)) secrets.push(`${name} header`);
+    });
+    try {
+        const parsed = new URL(url, 'http://relative.invalid');
+        if (parsed.username || parsed.password) secrets.push('credentials in the URL');
+        parsed.searchParams.forEach((_, name) => {
+            if (SECRET_PARAMS.includes(name.toLowerCase())) secrets.push(`"${name}" query parameter`);
+        });
+    } catch { /* unparsable URL, fetch will reject it anyway */ }
+    return { sensitive: secrets.length > 0, secrets };
+}
+
+const hostOf = (url: string) => {
+    try { return new URL(url).host; } catch { return url; }
+};
+
+/**
+ * Thrown when a request carrying secrets failed directly and the only proxies left to try are untrusted.
+ * The request was not sent through them; the message says why and how to fix it.
+ */
+export class SensitiveRequestBlockedError extends Error {
+    constructor(url: string, public readonly secrets: string[], cause?: FetchError) {
+        const reason = cause?.kind === 'timeout' ? 'timed out' : cause?.detail;
+        super(`Request to ${hostOf(url)} was not sent through an untrusted proxy because it carries secrets (${secrets.join(', ')}). ` +
+            `The direct connection failed${reason ? ` (${reason})` : ''}. ` +
+            `To route it through a proxy, mark one you control as trusted under Fetch Proxies, e.g. the bundled local proxy.`);
+        this.name = 'SensitiveRequestBlockedError';
+    }
+}
+
+// Per host, how each route (the direct connection or a proxy) has done this session. robustFetch tries the
+// route that last worked for a host first and moves routes that keep failing to the back of the queue, so a
+// CORS-blocked site costs one failed direct attempt per crawl instead of one per page.
+interface RouteStats {
+    successes: number;
+    failures: number;
+    consecutiveFailures: number;
+    latencyMs: number | null; // Smoothed time to response
+    lastError?: string;
+    benchedUntil: number; // Epoch ms; 0 when not benched
+}
+
+const DIRECT_ROUTE = 'direct';
+const BENCH_AFTER_FAILURES = 3;
+const BENCH_BASE_MS = 60_000; // Doubles with every further failure in a row
+const BENCH_MAX_MS = 10 * 60_000;
+const LATENCY_SMOOTHING = 0.3;
+
+const routeStats = new Map<string, Map<string, RouteStats>>(); // host -> route id -> stats
+const preferredRoutes = new Map<string, string>(); // host -> id of the route that last succeeded
+const recentFailures: FetchError[] = []; // Newest first
+const RECENT_FAILURES_KEPT = 25;
+const directResponses = new WeakSet<Response>();
+
+function statsFor(host: string, routeId: string): RouteStats {
+    let byRoute = routeStats.get(host);
+    if (!byRoute) routeStats.set(host, byRoute = new Map());
+    let stats = byRoute.get(routeId);
+    if (!stats) byRoute.set(routeId, stats = { successes: 0, failures: 0, consecutiveFailures: 0, latencyMs: null, benchedUntil: 0 });
+    return stats;
+}
+
+function recordSuccess(host: string, routeId: string, latencyMs: number) {
+    const stats = statsFor(host, routeId);
+    stats.successes++;
+    stats.consecutiveFailures = 0;
+    stats.benchedUntil = 0;
+    stats.latencyMs = stats.latencyMs === null ? latencyMs : stats.latencyMs + LATENCY_SMOOTHING * (latencyMs - stats.latencyMs);
+    preferredRoutes.set(host, routeId);
+}
+
+function recordFailure(host: string, routeId: string, error: string) {
+    const stats = statsFor(host, routeId);
+    stats.failures++;
+    stats.consecutiveFailures++;
+    stats.lastError = error;
+    if (stats.consecutiveFailures >= BENCH_AFTER_FAILURES) {
+        const benchMs = Math.min(BENCH_BASE_MS * 2 ** (stats.consecutiveFailures - BENCH_AFTER_FAILURES), BENCH_MAX_MS);
+        stats.benchedUntil = Date.now() + benchMs;
+    }
+    if (preferredRoutes.get(host) === routeId) preferredRoutes.delete(host);
+}
+
+/**
+ * Orders routes for a host: the one that last worked, then the rest in configured order, then benched ones.
+ * Benched routes are still tried as a last resort rather than dropped, so a host is never left with no route.
+ */
+function orderRoutes<T extends { id: string }>(host: string, routes: T[]): T[] {
+    const now = Date.now();
+    const preferred = preferredRoutes.get(host);
+    const rank = (route: T) => {
+        if ((routeStats.get(host)?.get(route.id)?.benchedUntil ?? 0) > now) return 2;
+        return route.id === preferred ? 0 : 1;
+    };
+    return routes.map(route => ({ route, rank: rank(route) })).sort((a, b) => a.rank - b.rank).map(r => r.route);
+}
+
+// Statuses that may be the proxy refusing (rate limits, missing keys, outages) rather than the site answering.
+const isProxyRefusal = (status: number) => status === 403 || status === 429 || status >= 500;
+// Statuses from the site itself that a proxy's different IP may get past, e.g. a WAF block or a per-IP rate limit.
+// A crawl that hits a rate limit backs off instead: going round it from other IPs defeats the site's limit.
+const isDirectRefusal = (status: number, purpose: FetchPurpose) => status === 403 || (status === 429 && purpose !== 'crawl');
+
+/**
+ * Snapshot of every route's health per host, for the network diagnostics panel.
+ */
+export function getNetworkStats(): RouteHealth[] {
+    const names = new Map(getProxies().map(p => [p.id, p.name]));
+    const now = Date.now();
+    const rows: RouteHealth[] = [];
+    routeStats.forEach((byRoute, host) => {
+        byRoute.forEach((stats, routeId) => {
+            rows.push({
+                host,
+                routeId,
+                routeName: routeId === DIRECT_ROUTE ? 'Direct' : names.get(routeId) ?? routeId,
+                successes: stats.successes,
+                failures: stats.failures,
+                latencyMs: stats.latencyMs === null ? null : Math.round(stats.latencyMs),
+                lastError: stats.lastError,
+                benchedUntil: stats.benchedUntil > now ? stats.benchedUntil : undefined,
+                preferred: preferredRoutes.get(host) === routeId,
+            });
+        });
+    });
+    return rows;
+}
+
+// The last requests robustFetch gave up on, newest first.
+export function getRecentFetchFailures(): FetchError[] {
+    return [...recentFailures];
+}
+
+// Whether robustFetch got this response straight from the site rather than through a proxy.
+export function wasFetchedDirectly(response: Response): boolean {
+    return directResponses.has(response);
+}
+
+// Forgets learned routes, benches and recent failures, e.g. after fixing a proxy.
+export function resetNetworkStats(): void {
+    routeStats.clear();
+    preferredRoutes.clear();
+    recentFailures.length = 0;
+}
+
+// How robustFetch retries a route that answers with a transient status.
+export interface RetryPolicy {
+    retries: number; // Extra attempts per route
+    baseDelayMs: number; // First backoff; doubles with each retry, with jitter
+    maxDelayMs: number; // Longest single wait. A longer Retry-After is not waited for.
+    retryStatuses: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { retries: 2, baseDelayMs: 1000, maxDelayMs: 30_000, retryStatuses: [429, 503] };
+
+// Why a request failed: the server answered with an error, the route could not be reached, or it took too long.
+export type FetchFailureKind = 'http' | 'network' | 'timeout';
+
+/**
+ * Thrown by robustFetch when no route produced a usable response. Carries enough context to explain the failure
+ * without digging through the console: what failed, which routes were tried, how long it took.
+ */
+export class FetchError extends Error {
+    readonly kind: FetchFailureKind;
+    readonly url: string;
+    readonly status?: number;
+    readonly route: string; // The route whose failure is reported, e.g. "direct connection" or a proxy name
+    readonly routesTried: string[];
+    readonly attempts: number; // Requests sent, including retries
+    readonly elapsedMs: number;
+    readonly retryAfterMs?: number; // From the server's Retry-After header
+    readonly detail?: string; // Error message from the response body, or the network error
+
+    constructor(failure: Omit<FetchError, keyof Error>) {
+        super(describeFailure(failure));
+        this.name = 'FetchError';
+        this.kind = failure.kind;
+        this.url = failure.url;
+        this.status = failure.status;
+        this.route = failure.route;
+        this.routesTried = failure.routesTried;
+        this.attempts = failure.attempts;
+        this.elapsedMs = failure.elapsedMs;
+        this.retryAfterMs = failure.retryAfterMs;
+        this.detail = failure.detail;
+    }
+}
+
+function describeFailure(failure: Omit<FetchError, keyof Error>): string {
+    const host = hostOf(failure.url);
+    const elapsed = `${(failure.elapsedMs / 1000).toFixed(1)}s`;
+    if (failure.kind === 'http') {
+        const attempts = failure.attempts > 1 ? ` after ${failure.attempts} attempts` : '';
+        return `HTTP ${failure.status} from ${host} via ${failure.route}${attempts} (${elapsed})${failure.detail ? `: ${failure.detail}` : ''}`;
+    }
+    const tried = `tried ${failure.routesTried.join(', ')}; ${elapsed}`;
+    return failure.kind === 'timeout'
+        ? `Timed out reaching ${host} (${tried})`
+        : `Could not reach ${host}${failure.detail ? `: ${failure.detail}` : ''} (${tried})`;
+}
+
+// Retry-After is either a number of seconds or an HTTP date.
+function parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with jitter, so concurrent workers that hit a limit together don't retry together.
+function backoffDelay(policy: RetryPolicy, retry: number): number {
+    const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+    return delay / 2 + Math.random() * (delay / 2);
+}
+
+// The error message APIs put in their response bodies, e.g. {"error": {"message": "Invalid API key"}}.
+async function readErrorDetail(response: Response): Promise<string | undefined> {
+    try {
+        const text = (await response.text()).trim();
+        try {
+            const json = JSON.parse(text);
+            const message = json?.error?.message ?? json?.message ?? (typeof json?.error === 'string' ? json.error : undefined);
+            if (message) return String(message).slice(0, 300);
+        } catch { /* not JSON */ }
+        return text && !text.startsWith('<') ? text.slice(0, 300) : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+// Resolves after ms, or rejects with the signal's reason as soon as it aborts.
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(id);
+        reject(signal!.reason);
+    };
+    const id = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
 
 /**
  * A state-of-the-art, resilient fetch utility that attempts a direct connection first,
- * then cycles through multiple CORS proxies as a fallback.
- * Includes a timeout to prevent hanging requests and configurable error handling.
+ * then cycles through the user's configured CORS proxies allowed for the request's purpose.
+ * Once a route has worked for a host it is tried first, and routes that keep failing are benched.
+ * Requests carrying secrets (see classifyRequest) only go through proxies marked trusted.
+ *
+ * Network errors and timeouts move on to the next route. A route that answers 429/503 is retried with
+ * backoff (honouring Retry-After) before giving up on it. A direct 403, or a 429 outside crawling, moves on to the
+ * proxies too, since WAFs and per-IP limits often let a proxy through; it only counts against the direct route
+ * once a proxy does get through. Any other HTTP answer from the site is final.
  * @param url The URL to fetch.
  * @param options Standard fetch options.
- * @param config Configuration for timeout and error handling.
+ * @param config Timeout, retry policy, error handling, whether this is a page fetch ('crawl') or an API call ('api', the default),
+ *        a signal that cancels the request and any retries, and `proxiesOnly` to skip the direct route.
  * @returns A promise that resolves to the fetch response.
- * @throws An error if the direct fetch and all proxies fail.
+ * @throws FetchError if no route produced a usable response, SensitiveRequestBlockedError if the only
+ *         proxies left were untrusted, or the signal's reason once it aborts.
  */
 export async function robustFetch(
     url: string, 
     options: RequestInit = {}, 
-    config: { timeout?: number; throwOnHttpError?: boolean } = {}
+    config: { timeout?: number; throwOnHttpError?: boolean; purpose?: FetchPurpose; retry?: Partial<RetryPolicy>; signal?: AbortSignal; proxiesOnly?: boolean } = {}
 ): Promise<Response> {
-    const { timeout = 15000, throwOnHttpError = true } = config;
-    let lastError: Error | null = null;
-
-    for (const proxy of PROXIES) {
-        let requestUrl: string;
-        
-        switch (proxy.type) {
-            case 'direct':
-                requestUrl = url;
-                break;
-            case 'prefix':
-                // For proxies like corsproxy.io/?https://... or cors.sh/https://...
-                requestUrl = `${proxy.endpoint}${url}`;
-                break;
-            case 'query_param':
-                 // For proxies like allorigins.win/raw?url=...
-                requestUrl = `${proxy.endpoint}${encodeURIComponent(url)}`;
-                break;
-        }
+    const { timeout = 15000, throwOnHttpError = true, purpose = 'api', signal, proxiesOnly = false } = config;
+    const retryPolicy = { ...DEFAULT_RETRY_POLICY, ...config.retry };
+    const startedAt = Date.now();
+    const routesTried: string[] = [];
+    let attemptCount = 0;
+    let lastNetworkFailure: { kind: 'network' | 'timeout'; route: string; message: string } | null = null;
+    // A refusal-looking response from a proxy, kept in case every other route fails too.
+    let fallback: { response: Response; route: string; routeId: string; retryAfterMs?: number } | null = null;
 
-        try {
+    const fail = (failure: Pick<FetchError, 'kind' | 'route' | 'status' | 'retryAfterMs' | 'detail'>) => {
+        const error = new FetchError({ ...failure, url, routesTried, attempts: attemptCount, elapsedMs: Date.now() - startedAt });
+        recentFailures.unshift(error);
+        recentFailures.length = Math.min(recentFailures.length, RECENT_FAILURES_KEPT);
+        return error;
+    };
+
+    const { sensitive, secrets } = classifyRequest(url, options);
+    const eligible = getProxies().filter(p => p.enabled && (purpose === 'crawl' ? p.useForCrawl : p.useForApi));
+    const proxies = sensitive ? eligible.filter(p => p.trusted) : eligible;
+    const host = hostOf(url);
+    const attempts = orderRoutes(host, [
+        ...(proxiesOnly ? [] : [{ id: DIRECT_ROUTE, name: 'direct connection', requestUrl: url }]),
+        ...proxies.map(p => ({ id: p.id, name: p.name, requestUrl: buildProxyUrl(p, url) })),
+    ]);
+
+    for (const attempt of attempts) {
+        routesTried.push(attempt.name);
+        for (let retry = 0; ; retry++) {
+            signal?.throwIfAborted();
+            const attemptStartedAt = Date.now();
+            attemptCount++;
             const controller = new AbortController();
             const id = setTimeout(() => controller.abort(), timeout);
-            
-            const response = await fetch(requestUrl, {
-                ...options,
-                signal: controller.signal
-            });
-            
-            clearTimeout(id);
-            
-            if (!response.ok) {
-                if (throwOnHttpError) {
-                     throw new Error(`Request failed with status: ${response.status}`);
+            const onAbort = () => controller.abort(signal!.reason);
+            signal?.addEventListener('abort', onAbort, { once: true });
+            let response: Response;
+            try {
+                response = await fetch(attempt.requestUrl, { ...options, signal: controller.signal });
+            } catch (error) {
+                // Cancelled by the caller: not the route's fault, and no other route should be tried.
+                if (signal?.aborted) throw signal.reason;
+                const timedOut = (error as Error).name === 'AbortError';
+                const message = timedOut ? `Timed out after ${timeout / 1000}s` : (error as Error).message;
+                recordFailure(host, attempt.id, message);
+                lastNetworkFailure = { kind: timedOut ? 'timeout' : 'network', route: attempt.name, message };
+                break; // The route is the problem, not the request: try the next one.
+            } finally {
+                clearTimeout(id);
+                signal?.removeEventListener('abort', onAbort);
+            }
+
+            const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+            if (retryPolicy.retryStatuses.includes(response.status) && retry < retryPolicy.retries) {
+                const delay = retryAfterMs ?? backoffDelay(retryPolicy, retry);
+                if (delay <= retryPolicy.maxDelayMs) {
+                    await sleep(delay, signal);
+                    continue;
                 }
-                return response;
             }
-            
-            // console.log(`Successfully fetched ${url} via ${proxy.name}`); // Silenced for SOTA efficiency
-            return response; // Success!
 
-        } catch (error) {
-            lastError = error as Error;
-            // console.warn(`Fetch via ${proxy.name} failed for ${url}. Trying next...`); // Silenced for SOTA efficiency
+            if (attempt.id === DIRECT_ROUTE ? isDirectRefusal(response.status, purpose) : isProxyRefusal(response.status)) {
+                // A forbidden page says nothing about the direct route, unless a proxy then gets the page (below).
+                if (attempt.id !== DIRECT_ROUTE) recordFailure(host, attempt.id, `HTTP ${response.status}`);
+                // The site's own answer is more telling than a proxy's refusal, so a direct one is kept.
+                if (fallback?.routeId !== DIRECT_ROUTE) fallback = { response, route: attempt.name, routeId: attempt.id, retryAfterMs };
+                break;
+            }
+            recordSuccess(host, attempt.id, Date.now() - attemptStartedAt);
+            if (response.ok && fallback?.routeId === DIRECT_ROUTE) recordFailure(host, DIRECT_ROUTE, `HTTP ${fallback.response.status}, but ${attempt.name} got through`);
+            if (attempt.id === DIRECT_ROUTE) directResponses.add(response);
+
+            if (!response.ok && throwOnHttpError) {
+                throw fail({ kind: 'http', status: response.status, route: attempt.name, retryAfterMs, detail: await readErrorDetail(response) });
+            }
+            return response;
         }
     }
-    
+
+    if (fallback) {
+        if (fallback.routeId === DIRECT_ROUTE) directResponses.add(fallback.response);
+        if (!throwOnHttpError) return fallback.response;
+        throw fail({ kind: 'http', status: fallback.response.status, route: fallback.route, retryAfterMs: fallback.retryAfterMs, detail: await readErrorDetail(fallback.response) });
+    }
+
+    const networkError = fail({
+        kind: lastNetworkFailure?.kind ?? 'network',
+        route: lastNetworkFailure?.route ?? 'direct connection',
+        detail: lastNetworkFailure?.kind === 'network' ? lastNetworkFailure.message : undefined,
+    });
+
+    // Untrusted proxies were skipped because of the secrets. Report that instead of the bare network
+    // failure so the user knows why no proxy was tried.
+    if (proxies.length === 0 && eligible.length > 0) {
+        throw new SensitiveRequestBlockedError(url, secrets, networkError);
+    }
+
     // Only log the final error if absolute failure
     console.error(`All fetch attempts failed for: ${url}`);
-    throw lastError ?? new Error(`All fetch attempts failed for the URL: ${url}`);
-}
\ No newline at end of file
+    throw networkError;
+}
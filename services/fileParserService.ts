@@ -1,30 +1,5 @@
 // services/fileParserService.ts
-
-/**
- * Checks if a given string is a plausible, absolute HTTP/HTTPS URL and NOT an image/asset.
- */
-const isValidUrl = (str: string): boolean => {
-    if (!str) return false;
-    try {
-        const url = new URL(str);
-        if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
-
-        // Strict Asset Filtering
-        const lowerPath = url.pathname.toLowerCase();
-        const ignoredExtensions = [
-            '.jpg', '.jpeg', '.png', '.gif', '.webp', '.svg', '.bmp', '.ico', 
-            '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx', '.zip',
-            '.css', '.js', '.json', '.xml', '.mp4', '.mp3'
-        ];
-        
-        if (lowerPath.includes('/wp-content/uploads/')) return false;
-        if (ignoredExtensions.some(ext => lowerPath.endsWith(ext))) return false;
-
-        return true;
-    } catch (_) {
-        return false;
-    }
-};
+import { isInterestingUrl } from './urlScopeService';
 
 /**
  * Parses XML content to extract all URLs from <loc> tags.
@@ -41,7 +16,7 @@ const parseXml = (content: string): string[] => {
     const locs = doc.querySelectorAll('loc');
     return Array.from(locs)
         .map(loc => loc.textContent?.trim() || '')
-        .filter(isValidUrl);
+        .filter(isInterestingUrl);
 };
 
 /**
@@ -50,7 +25,7 @@ const parseXml = (content: string): string[] => {
 const parseTxt = (content: string): string[] => {
     return content.split(/\r?\n/)
         .map(line => line.trim())
-        .filter(isValidUrl);
+        .filter(isInterestingUrl);
 };
 
 /**
@@ -75,7 +50,7 @@ const parseCsv = (content: string): string[] => {
     if (urlIndex === -1) {
         // If no header matches, check if the first column of data looks like URLs
         const firstColumnData = dataLines.map(line => (line.split(',')[0] || '').trim());
-        const urlLikelihood = firstColumnData.filter(isValidUrl).length / dataLines.length;
+        const urlLikelihood = firstColumnData.filter(isInterestingUrl).length / dataLines.length;
 
         if (urlLikelihood > 0.7) { // If >70% of the first column are valid URLs
             console.warn("No 'url' header found in CSV. Assuming first column contains URLs based on content analysis.");
@@ -88,7 +63,7 @@ const parseCsv = (content: string): string[] => {
     return dataLines.map(line => {
         const columns = line.split(',');
         return (columns[urlIndex] || '').trim().replace(/"/g, '');
-    }).filter(isValidUrl);
+    }).filter(isInterestingUrl);
 };
 
 /**
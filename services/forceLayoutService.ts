@@ -0,0 +1,131 @@
+// services/forceLayoutService.ts
+
+const REPULSION_RADIUS = 80; // Nodes further apart than this don't push each other (grid cell size)
+const REPULSION_STRENGTH = 600;
+const LINK_DISTANCE = 45;
+const LINK_STRENGTH = 0.04;
+const GRAVITY = 0.012;
+const VELOCITY_DECAY = 0.6;
+const ALPHA_DECAY = 0.985;
+const ALPHA_MIN = 0.004;
+
+// Deterministic pseudo-random value in [0, 1) so layouts are stable between renders.
+const hashRandom = (seed: number) => {
+    const x = Math.sin(seed * 12.9898 + 78.233) * 43758.5453;
+    return x - Math.floor(x);
+};
+
+/**
+ * A small force-directed layout for large graphs. Repulsion only acts between nodes in neighbouring
+ * grid cells, so a tick costs roughly O(nodes + edges) instead of O(nodes²), which keeps a few
+ * thousand nodes interactive. Nodes in the same group start near each other so clusters form quickly.
+ */
+export class ForceLayout {
+    readonly x: Float32Array;
+    readonly y: Float32Array;
+    private vx: Float32Array;
+    private vy: Float32Array;
+    private pinned = -1;
+    alpha = 1;
+
+    constructor(private nodeCount: number, private edges: [number, number][], groups: number[]) {
+        this.x = new Float32Array(nodeCount);
+        this.y = new Float32Array(nodeCount);
+        this.vx = new Float32Array(nodeCount);
+        this.vy = new Float32Array(nodeCount);
+
+        const groupCount = Math.max(1, ...groups.map(g => g + 1));
+        const spread = Math.sqrt(nodeCount) * 12;
+        for (let i = 0; i < nodeCount; i++) {
+            const angle = (groups[i] / groupCount) * Math.PI * 2;
+            const jitterAngle = hashRandom(i) * Math.PI * 2;
+            const jitter = hashRandom(i + 0.5) * spread * 0.5;
+            this.x[i] = Math.cos(angle) * spread + Math.cos(jitterAngle) * jitter;
+            this.y[i] = Math.sin(angle) * spread + Math.sin(jitterAngle) * jitter;
+        }
+    }
+
+    get isSettled(): boolean {
+        return this.alpha < ALPHA_MIN;
+    }
+
+    // Re-heats the simulation, e.g. while a node is being dragged.
+    reheat(alpha: number = 0.3): void {
+        this.alpha = Math.max(this.alpha, alpha);
+    }
+
+    pin(index: number, x: number, y: number): void {
+        this.pinned = index;
+        this.x[index] = x;
+        this.y[index] = y;
+        this.vx[index] = 0;
+        this.vy[index] = 0;
+    }
+
+    unpin(): void {
+        this.pinned = -1;
+    }
+
+    tick(): void {
+        const { x, y, vx, vy, nodeCount, alpha } = this;
+
+        // Repulsion between nearby nodes via a uniform grid.
+        const grid = new Map<string, number[]>();
+        for (let i = 0; i < nodeCount; i++) {
+            const key = `${Math.floor(x[i] / REPULSION_RADIUS)},${Math.floor(y[i] / REPULSION_RADIUS)}`;
+            const cell = grid.get(key);
+            if (cell) cell.push(i); else grid.set(key, [i]);
+        }
+        for (let i = 0; i < nodeCount; i++) {
+            const cx = Math.floor(x[i] / REPULSION_RADIUS);
+            const cy = Math.floor(y[i] / REPULSION_RADIUS);
+            for (let gx = cx - 1; gx <= cx + 1; gx++) {
+                for (let gy = cy - 1; gy <= cy + 1; gy++) {
+                    const cell = grid.get(`${gx},${gy}`);
+                    if (!cell) continue;
+                    for (const j of cell) {
+                        if (j <= i) continue;
+                        let dx = x[i] - x[j];
+                        let dy = y[i] - y[j];
+                        let dist2 = dx * dx + dy * dy;
+                        if (dist2 === 0) {
+                            dx = hashRandom(i + j) - 0.5;
+                            dy = hashRandom(i - j) - 0.5;
+                            dist2 = dx * dx + dy * dy;
+                        }
+                        if (dist2 > REPULSION_RADIUS * REPULSION_RADIUS) continue;
+                        const force = (REPULSION_STRENGTH * alpha) / dist2;
+                        vx[i] += dx * force; vy[i] += dy * force;
+                        vx[j] -= dx * force; vy[j] -= dy * force;
+                    }
+                }
+            }
+        }
+
+        // Springs along edges.
+        for (const [a, b] of this.edges) {
+            const dx = x[b] - x[a];
+            const dy = y[b] - y[a];
+            const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+            const force = ((dist - LINK_DISTANCE) / dist) * LINK_STRENGTH * alpha;
+            vx[a] += dx * force; vy[a] += dy * force;
+            vx[b] -= dx * force; vy[b] -= dy * force;
+        }
+
+        // Gravity towards the centre keeps disconnected components on screen.
+        for (let i = 0; i < nodeCount; i++) {
+            vx[i] -= x[i] * GRAVITY * alpha;
+            vy[i] -= y[i] * GRAVITY * alpha;
+            if (i === this.pinned) {
+                vx[i] = 0; vy[i] = 0;
+                continue;
+            }
+            vx[i] *= VELOCITY_DECAY;
+            vy[i] *= VELOCITY_DECAY;
+            x[i] += vx[i];
+            y[i] += vy[i];
+        }
+
+        this.alpha *= ALPHA_DECAY;
+    }
+}
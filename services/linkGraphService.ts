@@ -0,0 +1,55 @@
+// services/linkGraphService.ts
+import { InternalLink, SeoData } from '../types';
+
+// Pages with this many inlinks or fewer (but more than zero) are flagged as weakly linked.
+export const LOW_INLINK_THRESHOLD = 2;
+
+export interface LinkGraph {
+    inbound: Map<string, InternalLink[]>; // Target URL -> links pointing at it (url = source page)
+    isComplete: boolean; // False when some pages' links are unknown, so missing inlinks prove nothing
+}
+
+// What the crawl knew about beyond the pages it returned.
+export interface CrawlCoverage {
+    knownUrls: string[]; // Every URL discovered, including ones out of scope or never reached
+    droppedUrls: Set<string>; // URLs that can't link anywhere: blocked by robots.txt or not HTML
+}
+
+/**
+ * Inverts every page's outbound internal links into per-page inbound links.
+ * Self-links are ignored, and each source counts once per target.
+ * With `coverage`, the graph is only complete when every known or linked URL was crawled or dropped: any
+ * other page (out of scope, past maxPages, in an unselected sitemap, not reached before a stop) may link
+ * to pages that would otherwise look orphaned.
+ */
+export function buildLinkGraph(pages: SeoData[], coverage?: CrawlCoverage): LinkGraph {
+    const inbound = new Map<string, InternalLink[]>(pages.map(p => [p.url, []]));
+    const isCovered = (url: string) => !coverage || inbound.has(url) || coverage.droppedUrls.has(url);
+    let isComplete = coverage?.knownUrls.every(isCovered) ?? true;
+
+    pages.forEach(page => {
+        if (!page.outboundLinks) {
+            // Error pages have no links to record; anything else means stale cached data.
+            if (page.httpStatus === undefined || (page.httpStatus >= 200 && page.httpStatus < 300)) isComplete = false;
+            return;
+        }
+        const seenTargets = new Set<string>();
+        page.outboundLinks.forEach(link => {
+            if (link.url === page.url || seenTargets.has(link.url)) return;
+            seenTargets.add(link.url);
+            if (!isCovered(link.url)) isComplete = false;
+            inbound.get(link.url)?.push({ url: page.url, anchorText: link.anchorText });
+        });
+    });
+
+    return { inbound, isComplete };
+}
+
+// The start page of a site is reached by typing its address, so it is never an orphan.
+export const isSiteRoot = (url: string): boolean => {
+    try {
+        return new URL(url).pathname === '/';
+    } catch {
+        return false;
+    }
+};
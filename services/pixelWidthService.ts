@@ -0,0 +1,104 @@
+// services/pixelWidthService.ts
+
+export type SerpDevice = 'desktop' | 'mobile';
+export type SerpField = 'title' | 'description';
+
+interface SerpTextSpec {
+    fontSizePx: number;
+    maxWidthPx: number; // Total width shown before Google cuts the text (all lines together)
+}
+
+// Approximations of Google's result snippets. Both devices render in Arial (or a metric-compatible font);
+// descriptions wrap onto two lines, mobile titles onto two lines.
+export const SERP_TEXT_SPECS: Record<SerpDevice, Record<SerpField, SerpTextSpec>> = {
+    desktop: {
+        title: { fontSizePx: 20, maxWidthPx: 600 },
+        description: { fontSizePx: 14, maxWidthPx: 920 },
+    },
+    mobile: {
+        title: { fontSizePx: 16, maxWidthPx: 690 },
+        description: { fontSizePx: 14, maxWidthPx: 680 },
+    },
+};
+
+const SERP_FONT_FAMILY = 'Arial, "Liberation Sans", Helvetica, sans-serif';
+const ELLIPSIS = '...';
+
+// Arial advance widths for printable ASCII (32–126) in 1/1000 em. Used when no canvas is available.
+const ARIAL_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const DEFAULT_WIDTH = 556; // Typical Latin glyph
+const WIDE_WIDTH = 1000; // CJK and other full-width characters
+
+const isWideChar = (code: number) => (code >= 0x1100 && code <= 0x115f) || (code >= 0x2e80 && code <= 0xa4cf) || (code >= 0xac00 && code <= 0xd7a3) || (code >= 0xf900 && code <= 0xfaff) || (code >= 0xff00 && code <= 0xff60);
+
+function measureWithTable(text: string, fontSizePx: number): number {
+    let units = 0;
+    for (const char of text) {
+        const code = char.codePointAt(0)!;
+        units += code >= 32 && code <= 126 ? ARIAL_WIDTHS[code - 32] : isWideChar(code) ? WIDE_WIDTH : DEFAULT_WIDTH;
+    }
+    return (units / 1000) * fontSizePx;
+}
+
+let canvasContext: CanvasRenderingContext2D | null | undefined;
+
+function getCanvasContext(): CanvasRenderingContext2D | null {
+    if (canvasContext === undefined) {
+        canvasContext = typeof document !== 'undefined' ? document.createElement('canvas').getContext('2d') : null;
+    }
+    return canvasContext;
+}
+
+/**
+ * Measures rendered text width in CSS pixels, using the browser's font metrics when a canvas is
+ * available and the bundled Arial width table otherwise.
+ */
+export function measureTextWidth(text: string, fontSizePx: number): number {
+    const ctx = getCanvasContext();
+    if (!ctx) return measureWithTable(text, fontSizePx);
+    ctx.font = `${fontSizePx}px ${SERP_FONT_FAMILY}`;
+    return ctx.measureText(text).width;
+}
+
+export function getSerpTextWidth(text: string, field: SerpField, device: SerpDevice = 'desktop'): number {
+    return Math.round(measureTextWidth(text, SERP_TEXT_SPECS[device][field].fontSizePx));
+}
+
+export function isSerpTextTruncated(text: string, field: SerpField, device: SerpDevice = 'desktop'): boolean {
+    return getSerpTextWidth(text, field, device) > SERP_TEXT_SPECS[device][field].maxWidthPx;
+}
+
+export interface SerpTruncation {
+    visible: string; // What Google would show, without the ellipsis
+    hidden: string; // The part that gets cut
+    truncated: boolean;
+    widthPx: number;
+    maxWidthPx: number;
+}
+
+/**
+ * Splits text where Google would cut it: at the last whole word that still fits with an ellipsis
+ * appended, or mid-word when a single word is too wide.
+ */
+export function truncateForSerp(text: string, field: SerpField, device: SerpDevice = 'desktop'): SerpTruncation {
+    const { fontSizePx, maxWidthPx } = SERP_TEXT_SPECS[device][field];
+    const widthPx = Math.round(measureTextWidth(text, fontSizePx));
+    if (widthPx <= maxWidthPx) return { visible: text, hidden: '', truncated: false, widthPx, maxWidthPx };
+
+    const budget = maxWidthPx - measureTextWidth(ELLIPSIS, fontSizePx);
+    let cut = 0;
+    for (let end = 1; end <= text.length; end++) {
+        if (measureTextWidth(text.slice(0, end), fontSizePx) > budget) break;
+        cut = end;
+    }
+    const lastSpace = text.lastIndexOf(' ', cut);
+    if (lastSpace > 0) cut = lastSpace;
+    return { visible: text.slice(0, cut).trimEnd(), hidden: text.slice(cut), truncated: true, widthPx, maxWidthPx };
+}
@@ -0,0 +1,156 @@
+// services/robotsService.ts
+
+// The user-agent whose rules we audit against. SEO issues are about what Google can crawl,
+// so Googlebot's group is used when present, falling back to the '*' group.
+export const ROBOTS_USER_AGENT = 'googlebot';
+// The token this app's own crawler answers to. No site names it, so its Crawl-delay normally comes from '*'
+// (Googlebot ignores Crawl-delay, and sites often only set it for everyone else).
+export const CRAWLER_USER_AGENT = 'serpquantum';
+
+interface RobotsRule {
+    allow: boolean;
+    pattern: string;
+    regex: RegExp;
+}
+
+interface RobotsGroup {
+    userAgents: string[];
+    rules: RobotsRule[];
+    crawlDelay?: number; // seconds
+}
+
+export interface RobotsTxt {
+    groups: RobotsGroup[];
+    sitemaps: string[];
+}
+
+// The rules that apply to a single user-agent after group selection.
+export interface RobotsPolicy {
+    rules: RobotsRule[];
+    crawlDelayMs: number; // For the crawler itself, which may differ from the audited user-agent's group
+    sitemaps: string[];
+}
+
+export const EMPTY_ROBOTS_POLICY: RobotsPolicy = { rules: [], crawlDelayMs: 0, sitemaps: [] };
+
+/**
+ * Converts a robots.txt path pattern into a RegExp.
+ * Supports '*' (any sequence) and a trailing '$' (end of URL), per Google's robots.txt spec.
+ */
+function patternToRegex(pattern: string): RegExp {
+    const anchored = pattern.endsWith('$');
+    const body = anchored ? pattern.slice(0, -1) : pattern;
+    const escaped = body.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${escaped}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Parses a robots.txt file into user-agent groups and global Sitemap entries.
+ * Consecutive User-agent lines share one group; a User-agent line after any rule starts a new group.
+ */
+export function parseRobotsTxt(text: string): RobotsTxt {
+    const groups: RobotsGroup[] = [];
+    const sitemaps: string[] = [];
+    let current: RobotsGroup | null = null;
+    let lastWasAgent = false;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*$/, '').trim();
+        const sep = line.indexOf(':');
+        if (sep === -1) continue;
+
+        const field = line.slice(0, sep).trim().toLowerCase();
+        const value = line.slice(sep + 1).trim();
+
+        switch (field) {
+            case 'user-agent':
+                if (!current || !lastWasAgent) {
+                    current = { userAgents: [], rules: [] };
+                    groups.push(current);
+                }
+                current.userAgents.push(value.toLowerCase());
+                lastWasAgent = true;
+                continue;
+            case 'allow':
+            case 'disallow':
+                // An empty Disallow means "allow everything" and adds no rule.
+                if (current && value) {
+                    current.rules.push({ allow: field === 'allow', pattern: value, regex: patternToRegex(value) });
+                }
+                break;
+            case 'crawl-delay': {
+                const delay = parseFloat(value);
+                if (current && !isNaN(delay) && delay >= 0) current.crawlDelay = delay;
+                break;
+            }
+            case 'sitemap':
+                if (value) sitemaps.push(value);
+                break;
+        }
+        lastWasAgent = false;
+    }
+
+    return { groups, sitemaps };
+}
+
+/**
+ * Selects the groups for a user-agent: every group whose token matches most specifically
+ * (longest token contained in the user-agent), otherwise every '*' group.
+ */
+function selectGroups(robots: RobotsTxt, userAgent: string): RobotsGroup[] {
+    const agent = userAgent.toLowerCase();
+    let bestLength = 0;
+    let matched: RobotsGroup[] = [];
+
+    for (const group of robots.groups) {
+        for (const token of group.userAgents) {
+            if (token === '*' || !agent.includes(token)) continue;
+            if (token.length > bestLength) {
+                bestLength = token.length;
+                matched = [group];
+            } else if (token.length === bestLength && !matched.includes(group)) {
+                matched.push(group);
+            }
+        }
+    }
+    if (matched.length === 0) {
+        matched = robots.groups.filter(g => g.userAgents.includes('*'));
+    }
+    return matched;
+}
+
+/**
+ * Audits allow/disallow rules as `userAgent` sees them, while Crawl-delay is taken from the group that
+ * applies to this crawler (`crawlerUserAgent`, usually '*'), since that is who the delay throttles.
+ */
+export function getRobotsPolicy(robots: RobotsTxt, userAgent: string = ROBOTS_USER_AGENT, crawlerUserAgent: string = CRAWLER_USER_AGENT): RobotsPolicy {
+    const delays = selectGroups(robots, crawlerUserAgent).map(g => g.crawlDelay).filter((d): d is number => d !== undefined);
+    return {
+        rules: selectGroups(robots, userAgent).flatMap(g => g.rules),
+        crawlDelayMs: delays.length > 0 ? Math.max(...delays) * 1000 : 0,
+        sitemaps: robots.sitemaps,
+    };
+}
+
+/**
+ * Checks a URL against a policy. The longest matching pattern wins; on a tie, Allow wins.
+ */
+export function isUrlAllowed(policy: RobotsPolicy, url: string): boolean {
+    let path: string;
+    try {
+        const urlObj = new URL(url);
+        path = urlObj.pathname + urlObj.search;
+    } catch {
+        return true;
+    }
+    if (path === '/robots.txt') return true;
+
+    let best: RobotsRule | null = null;
+    for (const rule of policy.rules) {
+        if (!rule.regex.test(path)) continue;
+        if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+            best = rule;
+        }
+    }
+    return best ? best.allow : true;
+}
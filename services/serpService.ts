@@ -23,7 +23,11 @@ function parseSerpHTML(html: string): SerpResult[] {
     return results.slice(0, 7);
 }
 
-export async function fetchSerpData(query: string, location?: string): Promise<SerpResult[]> {
+/**
+ * Scrapes the top Google results for a query. SERP data only enriches the analysis, so failures return no
+ * results; `onError` receives the reason.
+ */
+export async function fetchSerpData(query: string, location?: string, onError?: (message: string) => void, signal?: AbortSignal): Promise<SerpResult[]> {
     console.log(`Fetching live SERP data for query: "${query}" ${location ? `in "${location}"` : ''}`);
     const searchQuery = location ? `${query} in ${location}` : query;
     const searchUrl = `https://www.google.com/search?q=${encodeURIComponent(searchQuery)}&gl=us&hl=en`;
@@ -31,7 +35,8 @@ export async function fetchSerpData(query: string, location?: string): Promise<S
     try {
         const response = await robustFetch(searchUrl, {
             headers: { 'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36' }
-        }, { timeout: 20000 });
+        // Google answers scrapers with long Retry-After waits; one short retry is all the SERP is worth.
+        }, { timeout: 20000, purpose: 'crawl', retry: { retries: 1, maxDelayMs: 5000 }, signal });
 
         const html = await response.text();
         const serpResults = parseSerpHTML(html);
@@ -41,7 +46,9 @@ export async function fetchSerpData(query: string, location?: string): Promise<S
         }
         return serpResults;
     } catch (error) {
+        if (signal?.aborted) return [];
         console.error(`Failed to fetch or parse SERP data for query "${query}":`, error);
+        onError?.((error as Error).message);
         return [];
     }
 }
@@ -0,0 +1,110 @@
+// services/similarityService.ts
+
+// Titles/descriptions this similar (Jaccard over character shingles) are reported as near-duplicates.
+export const DEFAULT_NEAR_DUPLICATE_THRESHOLD = 0.7;
+
+const SHINGLE_SIZE = 3;
+
+export interface NearDuplicateCluster {
+    urls: string[];
+    texts: string[]; // Same order as urls
+    minSimilarity: number; // Lowest similarity between any directly linked pair
+}
+
+interface TextItem {
+    url: string;
+    text: string;
+}
+
+/**
+ * Character shingles of the normalised text. Character shingles (rather than words) keep templated
+ * titles like "Red Widget | Shop" and "Blue Widget | Shop" close, since only a few shingles differ.
+ */
+function toShingles(text: string): Set<string> {
+    const normalized = ` ${text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()} `;
+    const shingles = new Set<string>();
+    if (normalized.trim().length === 0) return shingles;
+    for (let i = 0; i + SHINGLE_SIZE <= normalized.length; i++) {
+        shingles.add(normalized.slice(i, i + SHINGLE_SIZE));
+    }
+    return shingles;
+}
+
+export function jaccardSimilarity(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 && b.size === 0) return 1;
+    let intersection = 0;
+    const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+    small.forEach(s => { if (large.has(s)) intersection++; });
+    return intersection / (a.size + b.size - intersection);
+}
+
+export function textSimilarity(a: string, b: string): number {
+    return jaccardSimilarity(toShingles(a), toShingles(b));
+}
+
+/**
+ * Groups texts whose pairwise similarity reaches the threshold, ignoring exact duplicates of each other
+ * (those are reported separately). Uses prefix filtering so sites with thousands of pages don't need
+ * every pair compared: two sets with Jaccard >= t must share one of their rarest |s| - ceil(t·|s|) + 1 shingles.
+ * Clusters are transitive: A~B and B~C puts A, B and C together.
+ */
+export function findNearDuplicateClusters(items: TextItem[], threshold: number = DEFAULT_NEAR_DUPLICATE_THRESHOLD): NearDuplicateCluster[] {
+    const entries = items
+        .filter(item => item.text.trim())
+        .map(item => ({ ...item, shingles: toShingles(item.text) }))
+        .filter(item => item.shingles.size > 0);
+
+    const frequency = new Map<string, number>();
+    entries.forEach(e => e.shingles.forEach(s => frequency.set(s, (frequency.get(s) ?? 0) + 1)));
+
+    // Union-find over entry indexes.
+    const parent = entries.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    const links: { i: number; similarity: number }[] = [];
+
+    const index = new Map<string, number[]>();
+    entries.forEach((entry, i) => {
+        const ordered = Array.from(entry.shingles).sort((x, y) => (frequency.get(x)! - frequency.get(y)!) || (x < y ? -1 : 1));
+        const prefixLength = ordered.length - Math.ceil(threshold * ordered.length) + 1;
+        const candidates = new Set<number>();
+        ordered.slice(0, prefixLength).forEach(s => {
+            const postings = index.get(s);
+            if (postings) {
+                postings.forEach(j => candidates.add(j));
+                postings.push(i);
+            } else {
+                index.set(s, [i]);
+            }
+        });
+
+        const key = entry.text.trim().toLowerCase();
+        candidates.forEach(j => {
+            if (entries[j].text.trim().toLowerCase() === key) return;
+            const similarity = jaccardSimilarity(entry.shingles, entries[j].shingles);
+            if (similarity < threshold) return;
+            parent[find(i)] = find(j);
+            links.push({ i, similarity });
+        });
+    });
+
+    const groups = new Map<number, number[]>();
+    entries.forEach((_, i) => {
+        const root = find(i);
+        if (!groups.has(root)) groups.set(root, []);
+        groups.get(root)!.push(i);
+    });
+    const minSimilarity = new Map<number, number>();
+    links.forEach(({ i, similarity }) => {
+        const root = find(i);
+        minSimilarity.set(root, Math.min(similarity, minSimilarity.get(root) ?? 1));
+    });
+
+    return Array.from(groups.entries())
+        .filter(([, members]) => members.length > 1)
+        .map(([root, members]) => ({
+            urls: members.map(i => entries[i].url),
+            texts: members.map(i => entries[i].text),
+            minSimilarity: minSimilarity.get(root) ?? threshold,
+        }))
+        .sort((a, b) => b.urls.length - a.urls.length);
+}
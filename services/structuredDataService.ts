@@ -0,0 +1,91 @@
+// services/structuredDataService.ts
+import { StructuredDataItem, StructuredDataReport } from '../types';
+
+type JsonLdNode = Record<string, any>;
+
+// Properties Google needs before a type is eligible for its rich result.
+// Each entry is a list of alternatives: at least one property in the group must be present.
+const REQUIRED_PROPERTIES: Record<string, string[][]> = {
+    Article: [['headline'], ['image'], ['datePublished'], ['author']],
+    BlogPosting: [['headline'], ['image'], ['datePublished'], ['author']],
+    NewsArticle: [['headline'], ['image'], ['datePublished'], ['author']],
+    Product: [['name'], ['offers', 'review', 'aggregateRating']],
+    FAQPage: [['mainEntity']],
+    BreadcrumbList: [['itemListElement']],
+    LocalBusiness: [['name'], ['address']],
+};
+
+// LocalBusiness subtypes commonly seen in the wild, validated with the LocalBusiness rules.
+const LOCAL_BUSINESS_SUBTYPES = ['Restaurant', 'Store', 'ProfessionalService', 'MedicalBusiness', 'HomeAndConstructionBusiness', 'AutomotiveBusiness', 'LegalService', 'Dentist', 'RealEstateAgent'];
+
+const isPresent = (value: unknown) => value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0);
+
+const getTypes = (node: JsonLdNode): string[] => {
+    const type = node['@type'];
+    if (Array.isArray(type)) return type.map(String);
+    return type ? [String(type)] : [];
+};
+
+// Flattens top-level arrays and @graph containers into individual typed nodes.
+function collectNodes(value: unknown): JsonLdNode[] {
+    if (Array.isArray(value)) return value.flatMap(collectNodes);
+    if (!value || typeof value !== 'object') return [];
+    const node = value as JsonLdNode;
+    const graph = Array.isArray(node['@graph']) ? node['@graph'].flatMap(collectNodes) : [];
+    return getTypes(node).length > 0 ? [node, ...graph] : graph;
+}
+
+function findMissingProperties(node: JsonLdNode, type: string): string[] {
+    const ruleType = LOCAL_BUSINESS_SUBTYPES.includes(type) ? 'LocalBusiness' : type;
+    const rules = REQUIRED_PROPERTIES[ruleType];
+    if (!rules) return [];
+
+    const missing = rules
+        .filter(group => !group.some(prop => isPresent(node[prop])))
+        .map(group => group.join(' or '));
+
+    // Nested requirements for list-style types.
+    if (ruleType === 'FAQPage' && isPresent(node.mainEntity)) {
+        const questions: JsonLdNode[] = Array.isArray(node.mainEntity) ? node.mainEntity : [node.mainEntity];
+        if (questions.some(q => !isPresent(q?.name) || !isPresent(q?.acceptedAnswer?.text))) {
+            missing.push('mainEntity[].name / acceptedAnswer.text');
+        }
+    }
+    if (ruleType === 'BreadcrumbList' && Array.isArray(node.itemListElement)) {
+        if (node.itemListElement.some((li: JsonLdNode) => !isPresent(li?.position) || !isPresent(li?.name ?? li?.item?.name))) {
+            missing.push('itemListElement[].position / name');
+        }
+    }
+    return missing;
+}
+
+/**
+ * Parses the raw contents of every script[type="application/ld+json"] block on a page
+ * and checks common types for the properties their rich results require.
+ */
+export function analyzeStructuredData(blocks: string[]): StructuredDataReport {
+    const items: StructuredDataItem[] = [];
+    const parseErrors: string[] = [];
+
+    blocks.forEach((block, index) => {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(block);
+        } catch (e) {
+            parseErrors.push(`Block ${index + 1}: ${(e as Error).message}`);
+            return;
+        }
+        collectNodes(parsed).forEach(node => {
+            getTypes(node).forEach(type => {
+                items.push({ type, missingProperties: findMissingProperties(node, type), node });
+            });
+        });
+    });
+
+    return {
+        types: Array.from(new Set(items.map(i => i.type))),
+        items,
+        parseErrors,
+    };
+}
+
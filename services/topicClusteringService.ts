@@ -0,0 +1,304 @@
+// services/topicClusteringService.ts
+import { SeoData, SimilarPage } from '../types';
+
+export interface LocalTopicCluster {
+    label: string;
+    urls: string[];
+    topTerms: string[]; // Highest-weighted terms of the cluster centroid, best first
+}
+
+export interface LocalClusteringResult {
+    topics: Map<string, string>; // URL -> cluster label ('Uncategorized' for pages with no usable text)
+    clusters: LocalTopicCluster[];
+}
+
+const UNCATEGORIZED = 'Uncategorized';
+const CONTENT_CHARS = 5000; // Body text beyond this adds time but rarely changes the topic
+const TITLE_WEIGHT = 3;
+const H1_WEIGHT = 2;
+const MAX_VOCABULARY = 8000;
+const MAX_DOCUMENT_FREQUENCY = 0.5; // Terms on more than half the pages (site name, navigation) say nothing about topic
+const MAX_ITERATIONS = 25;
+const MAX_CLUSTERS = 60;
+const TOP_TERMS = 8;
+
+const STOPWORDS = new Set(`a about above after again against all also am an and any are as at be because been before being below between both but by can could did do does doing down during each few for from further had has have having he her here hers him his how i if in into is it its itself just me more most my no nor not now of off on once only or other our ours out over own same she should so some such than that the their theirs them then there these they this those through to too under until up very was we were what when where which while who whom why will with would you your yours get got one new use used using may many much make like well also per via vs`.split(/\s+/));
+
+interface SparseVector {
+    indices: number[];
+    values: number[];
+}
+
+function tokenize(text: string): string[] {
+    return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(t => t.length >= 3 && !/^\d+$/.test(t));
+}
+
+// Unigrams plus bigrams of adjacent words; a stopword between two words breaks the bigram.
+function extractTerms(text: string): string[] {
+    const terms: string[] = [];
+    let previous: string | null = null;
+    for (const token of tokenize(text)) {
+        if (STOPWORDS.has(token)) {
+            previous = null;
+            continue;
+        }
+        terms.push(token);
+        if (previous) terms.push(`${previous} ${token}`);
+        previous = token;
+    }
+    return terms;
+}
+
+function termCounts(page: SeoData): Map<string, number> {
+    const counts = new Map<string, number>();
+    const add = (text: string | undefined, weight: number) => {
+        if (!text) return;
+        extractTerms(text).forEach(term => counts.set(term, (counts.get(term) ?? 0) + weight));
+    };
+    add(page.title, TITLE_WEIGHT);
+    page.headings?.filter(h => h.level === 1).forEach(h => add(h.text, H1_WEIGHT));
+    add(page.content?.slice(0, CONTENT_CHARS), 1);
+    return counts;
+}
+
+// Small deterministic PRNG so the same crawl always produces the same clusters.
+function seededRandom(seed: number): () => number {
+    return () => {
+        seed = (seed + 0x6d2b79f5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+const dot = (vector: SparseVector, centroid: Float32Array) => {
+    let sum = 0;
+    for (let i = 0; i < vector.indices.length; i++) sum += vector.values[i] * centroid[vector.indices[i]];
+    return sum;
+};
+
+function normalize(values: Float32Array | number[]): void {
+    let norm = 0;
+    for (let i = 0; i < values.length; i++) norm += values[i] * values[i];
+    norm = Math.sqrt(norm);
+    if (norm > 0) for (let i = 0; i < values.length; i++) values[i] /= norm;
+}
+
+/**
+ * Spherical k-means (cosine similarity) over L2-normalised vectors, seeded with k-means++.
+ * Returns the cluster index of every vector.
+ */
+function kMeans(vectors: SparseVector[], k: number, dimensions: number): number[] {
+    const random = seededRandom(vectors.length * 31 + k);
+    const centroids: Float32Array[] = [];
+    const toCentroid = (vector: SparseVector) => {
+        const centroid = new Float32Array(dimensions);
+        vector.indices.forEach((index, i) => { centroid[index] = vector.values[i]; });
+        return centroid;
+    };
+
+    // k-means++: each new seed is picked with probability proportional to its distance from the nearest seed.
+    centroids.push(toCentroid(vectors[Math.floor(random() * vectors.length)]));
+    const nearest = vectors.map(v => 1 - dot(v, centroids[0]));
+    while (centroids.length < k) {
+        const total = nearest.reduce((sum, d) => sum + d, 0);
+        let target = random() * total;
+        let pick = nearest.findIndex(d => (target -= d) <= 0);
+        if (pick < 0) pick = nearest.length - 1;
+        const centroid = toCentroid(vectors[pick]);
+        centroids.push(centroid);
+        vectors.forEach((v, i) => { nearest[i] = Math.min(nearest[i], 1 - dot(v, centroid)); });
+    }
+
+    let assignments = new Array<number>(vectors.length).fill(-1);
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+        let changed = false;
+        const similarities = new Array<number>(vectors.length);
+        vectors.forEach((vector, i) => {
+            let best = 0, bestSimilarity = -Infinity;
+            centroids.forEach((centroid, c) => {
+                const similarity = dot(vector, centroid);
+                if (similarity > bestSimilarity) { best = c; bestSimilarity = similarity; }
+            });
+            similarities[i] = bestSimilarity;
+            if (assignments[i] !== best) { assignments[i] = best; changed = true; }
+        });
+
+        const weights = centroids.map(() => new Float32Array(dimensions));
+        const sizes = new Array<number>(k).fill(0);
+        vectors.forEach((vector, i) => {
+            const sum = weights[assignments[i]];
+            sizes[assignments[i]]++;
+            vector.indices.forEach((index, j) => { sum[index] += vector.values[j]; });
+        });
+
+        // An empty cluster takes over the page that fits its current cluster worst.
+        sizes.forEach((size, c) => {
+            if (size > 0) return;
+            const worst = similarities.indexOf(Math.min(...similarities));
+            similarities[worst] = Infinity;
+            assignments = assignments.map((a, i) => i === worst ? c : a);
+            weights[c] = toCentroid(vectors[worst]);
+            changed = true;
+        });
+
+        weights.forEach((sum, c) => {
+            centroids[c] = Float32Array.from(sum);
+            normalize(centroids[c]);
+        });
+        if (!changed) break;
+    }
+    return assignments;
+}
+
+const toLabel = (term: string) => term.replace(/\b\p{L}/gu, c => c.toUpperCase());
+
+/**
+ * Names a cluster after its strongest term, preferring a bigram when it is nearly as strong as the best
+ * single word ("Running Shoes" over "Shoes"). Labels already used by another cluster are skipped.
+ */
+function pickLabel(rankedTerms: string[], weightOf: (term: string) => number, used: Set<string>): string {
+    const bestUnigram = rankedTerms.find(t => !t.includes(' '));
+    const threshold = bestUnigram ? weightOf(bestUnigram) * 0.5 : 0;
+    const candidates = [
+        ...rankedTerms.filter(t => t.includes(' ') && weightOf(t) >= threshold),
+        ...rankedTerms,
+    ].map(toLabel);
+    const label = candidates.find(c => !used.has(c)) ?? `${candidates[0] ?? 'Topic'} ${used.size + 1}`;
+    used.add(label);
+    return label;
+}
+
+interface TfIdfModel {
+    vocabulary: string[];
+    vectors: (SparseVector | null)[]; // One per page, null when the page has no usable text
+}
+
+function buildTfIdf(pages: SeoData[]): TfIdfModel {
+    const documents = pages.map(termCounts);
+
+    const documentFrequency = new Map<string, number>();
+    documents.forEach(counts => counts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)));
+    const minFrequency = pages.length >= 10 ? 2 : 1;
+    const maxFrequency = Math.max(2, Math.floor(pages.length * MAX_DOCUMENT_FREQUENCY));
+    const vocabulary = Array.from(documentFrequency)
+        .filter(([, df]) => df >= minFrequency && df <= maxFrequency)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_VOCABULARY)
+        .map(([term]) => term);
+    const termIndex = new Map(vocabulary.map((term, i) => [term, i]));
+    const idf = vocabulary.map(term => Math.log((1 + pages.length) / (1 + documentFrequency.get(term)!)) + 1);
+
+    const vectors = documents.map(counts => {
+        const vector: SparseVector = { indices: [], values: [] };
+        counts.forEach((count, term) => {
+            const index = termIndex.get(term);
+            if (index === undefined) return;
+            vector.indices.push(index);
+            vector.values.push((1 + Math.log(count)) * idf[index]);
+        });
+        if (vector.indices.length === 0) return null;
+        normalize(vector.values);
+        return vector;
+    });
+    return { vocabulary, vectors };
+}
+
+const defaultClusterCount = (pageCount: number) => Math.min(MAX_CLUSTERS, Math.round(Math.sqrt(pageCount / 2)));
+
+/**
+ * Turns per-page cluster assignments (-1 = unclustered) into labelled clusters, naming each after the
+ * summed TF-IDF weights of its pages. Largest clusters pick their labels first.
+ */
+function labelClusters(pages: SeoData[], assignments: number[], model: TfIdfModel): LocalClusteringResult {
+    const topics = new Map<string, string>(pages.map(p => [p.url, UNCATEGORIZED]));
+    const members = new Map<number, number[]>();
+    assignments.forEach((c, i) => {
+        if (c < 0) return;
+        if (!members.has(c)) members.set(c, []);
+        members.get(c)!.push(i);
+    });
+
+    const usedLabels = new Set<string>([UNCATEGORIZED]);
+    const clusters: LocalTopicCluster[] = [];
+    Array.from(members.values()).sort((a, b) => b.length - a.length).forEach(pageIndices => {
+        const weight = new Float32Array(model.vocabulary.length);
+        pageIndices.forEach(i => {
+            const vector = model.vectors[i];
+            vector?.indices.forEach((index, j) => { weight[index] += vector.values[j]; });
+        });
+        const rankedIndices = Array.from(weight.keys()).filter(i => weight[i] > 0).sort((a, b) => weight[b] - weight[a]).slice(0, 30);
+        const weightByTerm = new Map(rankedIndices.map(i => [model.vocabulary[i], weight[i]]));
+        const rankedTerms = Array.from(weightByTerm.keys());
+        const label = pickLabel(rankedTerms, term => weightByTerm.get(term)!, usedLabels);
+        const urls = pageIndices.map(i => pages[i].url);
+        urls.forEach(url => topics.set(url, label));
+        clusters.push({ label, urls, topTerms: rankedTerms.slice(0, TOP_TERMS) });
+    });
+
+    return { topics, clusters };
+}
+
+/**
+ * Groups pages into topics without any AI calls: TF-IDF over title, H1 and body text, clustered with
+ * spherical k-means and labelled with each cluster's top n-grams. The number of clusters defaults to
+ * √(pages / 2), which gives a 2,000-page site around 30 topics.
+ */
+export function clusterTopicsLocally(pages: SeoData[], clusterCount?: number): LocalClusteringResult {
+    const model = buildTfIdf(pages);
+    const usable = model.vectors.map((v, i) => v ? i : -1).filter(i => i >= 0);
+    const assignments = new Array<number>(pages.length).fill(-1);
+    if (usable.length >= 2) {
+        const k = Math.max(1, Math.min(usable.length, clusterCount ?? defaultClusterCount(usable.length)));
+        kMeans(usable.map(i => model.vectors[i]!), k, model.vocabulary.length).forEach((c, j) => { assignments[usable[j]] = c; });
+    }
+    return labelClusters(pages, assignments, model);
+}
+
+export interface EmbeddingClusteringResult extends LocalClusteringResult {
+    similarPages: Map<string, SimilarPage[]>; // Closest pages within the same cluster, best first
+}
+
+const SIMILAR_PAGES = 10;
+
+/**
+ * Clusters pages by cosine similarity of their embeddings (spherical k-means), then labels the clusters
+ * from their TF-IDF terms just like the local mode. Pages without an embedding stay unclustered.
+ */
+export function clusterByEmbeddings(pages: SeoData[], embeddings: Map<string, ArrayLike<number>>, clusterCount?: number): EmbeddingClusteringResult {
+    const usable = pages.map((p, i) => embeddings.has(p.url) ? i : -1).filter(i => i >= 0);
+    const dimensions = usable.length > 0 ? embeddings.get(pages[usable[0]].url)!.length : 0;
+    const vectors = usable.map(i => {
+        const values = Array.from(embeddings.get(pages[i].url)!);
+        normalize(values);
+        return { indices: values.map((_, d) => d), values };
+    });
+
+    const assignments = new Array<number>(pages.length).fill(-1);
+    if (usable.length >= 2) {
+        const k = Math.max(1, Math.min(usable.length, clusterCount ?? defaultClusterCount(usable.length)));
+        kMeans(vectors, k, dimensions).forEach((c, j) => { assignments[usable[j]] = c; });
+    }
+    const result = labelClusters(pages, assignments, buildTfIdf(pages));
+
+    // Vectors are unit length, so the dot product is the cosine similarity.
+    const similarPages = new Map<string, SimilarPage[]>();
+    const byCluster = new Map<number, number[]>();
+    usable.forEach((pageIndex, j) => {
+        const c = assignments[pageIndex];
+        if (!byCluster.has(c)) byCluster.set(c, []);
+        byCluster.get(c)!.push(j);
+    });
+    byCluster.forEach(memberIndices => {
+        memberIndices.forEach(a => {
+            const neighbours = memberIndices.filter(b => b !== a).map(b => {
+                let similarity = 0;
+                for (let d = 0; d < dimensions; d++) similarity += vectors[a].values[d] * vectors[b].values[d];
+                return { url: pages[usable[b]].url, similarity: Math.max(0, similarity) };
+            });
+            similarPages.set(pages[usable[a]].url, neighbours.sort((x, y) => y.similarity - x.similarity).slice(0, SIMILAR_PAGES));
+        });
+    });
+
+    return { ...result, similarPages };
+}
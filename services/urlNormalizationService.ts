@@ -0,0 +1,91 @@
+// services/urlNormalizationService.ts
+import { UrlNormalization } from '../types';
+
+export const DEFAULT_URL_NORMALIZATION: UrlNormalization = {
+    protocol: 'keep',
+    host: 'keep',
+    trailingSlash: 'keep',
+    stripTrackingParams: true,
+    ignoredParams: [],
+};
+
+// Query parameters added by ad platforms, email tools and analytics that never change page content.
+const TRACKING_PARAMS = [/^utm_/i, /^(gclid|gbraid|wbraid|dclid|fbclid|msclkid|yclid|igshid|twclid)$/i, /^mc_(cid|eid)$/i, /^_(ga|gl|hs[a-z]+)$/i, /^ref_src$/i];
+
+const STORAGE_PREFIX = 'urlNormalization:';
+
+// Loaded settings per site, so normalising a URL does not hit localStorage every time.
+const settingsCache = new Map<string, UrlNormalization>();
+
+// Settings are shared by www and non-www hosts: choosing between them is itself one of the settings.
+const getSiteKey = (hostname: string) => hostname.toLowerCase().replace(/^www\./, '');
+
+const getHostname = (url: string): string | null => {
+    try {
+        return new URL(url).hostname;
+    } catch {
+        return null;
+    }
+};
+
+export function getUrlNormalization(siteUrl: string): UrlNormalization {
+    const hostname = getHostname(siteUrl);
+    if (!hostname) return DEFAULT_URL_NORMALIZATION;
+    const siteKey = getSiteKey(hostname);
+    const cached = settingsCache.get(siteKey);
+    if (cached) return cached;
+
+    let settings = DEFAULT_URL_NORMALIZATION;
+    try {
+        const saved = localStorage.getItem(STORAGE_PREFIX + siteKey);
+        if (saved) settings = { ...DEFAULT_URL_NORMALIZATION, ...JSON.parse(saved) };
+    } catch { /* corrupt or unavailable storage, use defaults */ }
+    settingsCache.set(siteKey, settings);
+    return settings;
+}
+
+export function saveUrlNormalization(siteUrl: string, settings: UrlNormalization): void {
+    const hostname = getHostname(siteUrl);
+    if (!hostname) return;
+    const siteKey = getSiteKey(hostname);
+    settingsCache.set(siteKey, settings);
+    localStorage.setItem(STORAGE_PREFIX + siteKey, JSON.stringify(settings));
+}
+
+/**
+ * Rewrites a URL into the one form used for deduplication and as a cache key, using the site's saved settings.
+ * Fragments are always dropped. Unparseable input is returned unchanged.
+ */
+export function normalizeUrl(url: string, settings?: UrlNormalization): string {
+    let urlObj: URL;
+    try {
+        urlObj = new URL(url.trim());
+    } catch {
+        return url;
+    }
+    const options = settings ?? getUrlNormalization(urlObj.href);
+    urlObj.hash = '';
+
+    if (options.protocol === 'https' && urlObj.protocol === 'http:') urlObj.protocol = 'https:';
+
+    const isWww = urlObj.hostname.startsWith('www.');
+    if (options.host === 'www' && !isWww) urlObj.hostname = `www.${urlObj.hostname}`;
+    if (options.host === 'non-www' && isWww) urlObj.hostname = urlObj.hostname.slice(4);
+
+    const ignored = options.ignoredParams.map(p => p.trim().toLowerCase()).filter(Boolean);
+    Array.from(urlObj.searchParams.keys()).forEach(key => {
+        if ((options.stripTrackingParams && TRACKING_PARAMS.some(re => re.test(key))) || ignored.includes(key.toLowerCase())) {
+            urlObj.searchParams.delete(key);
+        }
+    });
+
+    // File-like paths (/feed.rss, /page.html) never get a slash added.
+    const path = urlObj.pathname;
+    if (options.trailingSlash === 'add' && !path.endsWith('/') && !/\.[a-z0-9]+$/i.test(path)) {
+        urlObj.pathname = `${path}/`;
+    } else if (options.trailingSlash === 'remove' && path !== '/' && path.endsWith('/')) {
+        urlObj.pathname = path.replace(/\/+$/, '');
+    }
+
+    return urlObj.href;
+}
@@ -0,0 +1,123 @@
+// services/urlScopeService.ts
+import { CrawlScope } from '../types';
+
+export const EMPTY_CRAWL_SCOPE: CrawlScope = { include: [], exclude: [] };
+
+const REGEX_RULE_PREFIX = 're:';
+const SCOPE_STORAGE_PREFIX = 'crawlScope:';
+
+// Media and asset extensions that are never pages. XML is handled by the sitemap parser, not crawled as a page.
+const IGNORED_EXTENSIONS = [
+    '.jpg', '.jpeg', '.png', '.gif', '.webp', '.svg', '.bmp', '.ico',
+    '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx', '.zip', '.rar',
+    '.css', '.js', '.json', '.xml',
+    '.mp4', '.mp3', '.avi', '.mov', '.wmv', '.flv', '.mkv'
+];
+
+/**
+ * Strict filter shared by every discovery path: only absolute http(s) URLs that look like HTML pages,
+ * never images, documents, WP uploads or REST endpoints.
+ */
+export function isInterestingUrl(url: string): boolean {
+    if (!url) return false;
+    try {
+        const urlObj = new URL(url);
+        if (urlObj.protocol !== 'http:' && urlObj.protocol !== 'https:') return false;
+        const pathname = urlObj.pathname.toLowerCase();
+
+        // Block WP Uploads directory entirely
+        if (pathname.includes('/wp-content/uploads/')) return false;
+        if (pathname.includes('/wp-json/')) return false;
+
+        return !IGNORED_EXTENSIONS.some(ext => pathname.endsWith(ext));
+    } catch (e) {
+        return false;
+    }
+}
+
+/**
+ * Compiles one scope rule. Rules prefixed with "re:" are regular expressions; anything else is a glob
+ * where '**' matches any characters and '*' matches within one path segment. Globs starting with '/'
+ * are anchored to the start of the path, others match anywhere. Both are tested against path + query.
+ */
+function compileScopeRule(rule: string): RegExp {
+    if (rule.startsWith(REGEX_RULE_PREFIX)) {
+        return new RegExp(rule.slice(REGEX_RULE_PREFIX.length));
+    }
+    const body = rule
+        .split('**')
+        .map(part => part.split('*').map(text => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*'))
+        .join('.*');
+    return new RegExp(rule.startsWith('/') ? `^${body}` : body);
+}
+
+const cleanRules = (rules: string[]) => rules.map(r => r.trim()).filter(Boolean);
+
+/**
+ * Returns a message for each rule that cannot be compiled, so the UI can reject the scope before a crawl starts.
+ */
+export function findInvalidScopeRules(scope: CrawlScope): string[] {
+    return cleanRules([...scope.include, ...scope.exclude]).flatMap(rule => {
+        try {
+            compileScopeRule(rule);
+            return [];
+        } catch (e) {
+            return [`${rule}: ${(e as Error).message}`];
+        }
+    });
+}
+
+/**
+ * Builds a predicate for a scope: a URL must match at least one include rule (when any are given)
+ * and no exclude rule.
+ */
+export function createScopeMatcher(scope: CrawlScope = EMPTY_CRAWL_SCOPE): (url: string) => boolean {
+    const include = cleanRules(scope.include).map(compileScopeRule);
+    const exclude = cleanRules(scope.exclude).map(compileScopeRule);
+    if (include.length === 0 && exclude.length === 0) return () => true;
+
+    return (url: string) => {
+        let target: string;
+        try {
+            const urlObj = new URL(url);
+            target = urlObj.pathname + urlObj.search;
+        } catch {
+            return false;
+        }
+        if (include.length > 0 && !include.some(re => re.test(target))) return false;
+        return !exclude.some(re => re.test(target));
+    };
+}
+
+export const isScopeEmpty = (scope?: CrawlScope) => !scope || (cleanRules(scope.include).length === 0 && cleanRules(scope.exclude).length === 0);
+
+// Scopes are saved per hostname so repeat audits of a site reuse the same rules.
+const getScopeStorageKey = (siteUrl: string): string | null => {
+    try {
+        return SCOPE_STORAGE_PREFIX + new URL(siteUrl).hostname.replace(/^www\./, '');
+    } catch {
+        return null;
+    }
+};
+
+export function loadCrawlScope(siteUrl: string): CrawlScope {
+    const key = getScopeStorageKey(siteUrl);
+    const saved = key ? localStorage.getItem(key) : null;
+    if (!saved) return EMPTY_CRAWL_SCOPE;
+    try {
+        const parsed = JSON.parse(saved);
+        return { include: Array.isArray(parsed.include) ? parsed.include : [], exclude: Array.isArray(parsed.exclude) ? parsed.exclude : [] };
+    } catch {
+        return EMPTY_CRAWL_SCOPE;
+    }
+}
+
+export function saveCrawlScope(siteUrl: string, scope: CrawlScope): void {
+    const key = getScopeStorageKey(siteUrl);
+    if (!key) return;
+    if (isScopeEmpty(scope)) {
+        localStorage.removeItem(key);
+    } else {
+        localStorage.setItem(key, JSON.stringify({ include: cleanRules(scope.include), exclude: cleanRules(scope.exclude) }));
+    }
+}
@@ -1,5 +1,6 @@
-import { WordPressCreds } from '../types';
-import { robustFetch } from './fetchService';
+import { WordPressCreds, SocialMetaUpdate, RewriteSuggestion } from '../types';
+import { robustFetch, SensitiveRequestBlockedError } from './fetchService';
+import { normalizeUrl } from './urlNormalizationService';
 
 /**
  * A queue to manage concurrent async tasks with a configurable limit.
@@ -75,6 +76,8 @@ async function getPostIdAndType(creds: WordPressCreds, pageUrl: string): Promise
                 return { id: data[0].id, type }; // Found it!
             }
         } catch (error) {
+            // Every post type would be blocked the same way, and the reason matters more than "not found".
+            if (error instanceof SensitiveRequestBlockedError) throw error;
             console.error(`Error fetching from ${type} endpoint:`, error);
         }
     }
@@ -82,66 +85,130 @@ async function getPostIdAndType(creds: WordPressCreds, pageUrl: string): Promise
     throw new Error(`Could not find a post or page with the slug "${slug}". Check permissions and ensure the page is public.`);
 }
 
+// Post lookups keyed by site and normalised page URL, so URL variants and repeat pushes share one lookup.
+const postLookupCache = new Map<string, Promise<{ id: number; type: 'posts' | 'pages' }>>();
+
+function findPost(creds: WordPressCreds, pageUrl: string): Promise<{ id: number; type: 'posts' | 'pages' }> {
+    const normalizedUrl = normalizeUrl(pageUrl);
+    const key = `${creds.siteUrl}|${normalizedUrl}`;
+    let lookup = postLookupCache.get(key);
+    if (!lookup) {
+        lookup = getPostIdAndType(creds, normalizedUrl);
+        postLookupCache.set(key, lookup);
+        // Don't remember failures: they are often fixed by new credentials or permissions.
+        lookup.catch(() => postLookupCache.delete(key));
+    }
+    return lookup;
+}
+
 /**
- * Updates the SEO meta title and description for a specific post on a WordPress site.
- * This function is "ultra-smart" as it sends update keys for the most popular
- * SEO plugins (Yoast, AIOSEO, Rank Math) simultaneously.
- * NOW with concurrent queue processing.
+ * Extracts the social variant from a suggestion. Only pushed when the AI produced both halves.
  */
-export async function updateSeoOnWordPress(creds: WordPressCreds, pageUrl: string, newTitle: string, newDescription: string): Promise<void> {
-    
-    return wpQueue.add(async () => {
-        let postInfo;
-        try {
-            postInfo = await getPostIdAndType(creds, pageUrl);
-        } catch (error) {
-             throw new Error(`Failed to find post on WordPress. Reason: ${(error as Error).message}`);
-        }
+export function getSocialUpdate(suggestion: RewriteSuggestion): SocialMetaUpdate | undefined {
+    return suggestion.socialTitle && suggestion.socialDescription
+        ? { title: suggestion.socialTitle, description: suggestion.socialDescription }
+        : undefined;
+}
 
-        const { id, type } = postInfo;
-        const apiUrl = `${creds.siteUrl}/wp-json/wp/v2/${type}/${id}`;
-        
-        const encodedCreds = btoa(`${creds.username}:${creds.appPassword}`);
-        const headers = {
-            'Authorization': `Basic ${encodedCreds}`,
-            'Content-Type': 'application/json',
-        };
-
-        const bodyPayload = {
-            meta: {
-                '_yoast_wpseo_title': newTitle,
-                '_yoast_wpseo_metadesc': newDescription,
-                '_aioseo_title': newTitle,
-                '_aioseo_description': newDescription,
-                'rank_math_title': newTitle,
-                'rank_math_description': newDescription
-            }
-        };
-        const body = JSON.stringify(bodyPayload);
+/**
+ * Builds the social (Open Graph / Twitter) meta keys for Yoast, AIOSEO and Rank Math.
+ */
+function buildSocialMetaPayload(social: SocialMetaUpdate): Record<string, string> {
+    return {
+        '_yoast_wpseo_opengraph-title': social.title,
+        '_yoast_wpseo_opengraph-description': social.description,
+        '_yoast_wpseo_twitter-title': social.title,
+        '_yoast_wpseo_twitter-description': social.description,
+        '_aioseo_og_title': social.title,
+        '_aioseo_og_description': social.description,
+        '_aioseo_twitter_title': social.title,
+        '_aioseo_twitter_description': social.description,
+        'rank_math_facebook_title': social.title,
+        'rank_math_facebook_description': social.description,
+        'rank_math_twitter_title': social.title,
+        'rank_math_twitter_description': social.description,
+    };
+}
 
-        console.log(`Attempting to update Post ID ${id} at ${apiUrl} with payload:`, bodyPayload);
+/**
+ * Looks up the post for a public URL and writes the given meta keys through the REST API.
+ * Shared by every update path so lookup, auth and error handling stay identical.
+ */
+async function updatePostMeta(creds: WordPressCreds, pageUrl: string, meta: Record<string, string>, label: string): Promise<void> {
+    let postInfo;
+    try {
+        postInfo = await findPost(creds, pageUrl);
+    } catch (error) {
+        // Callers show this one as is, so it must keep its type.
+        if (error instanceof SensitiveRequestBlockedError) throw error;
+        throw new Error(`Failed to find post on WordPress. Reason: ${(error as Error).message}`);
+    }
 
-        try {
-            const response = await robustFetch(apiUrl, {
-                method: 'POST',
-                headers,
-                body
-            }, { throwOnHttpError: false, timeout: 30000 });
+    const { id, type } = postInfo;
+    const apiUrl = `${creds.siteUrl}/wp-json/wp/v2/${type}/${id}`;
+    
+    const encodedCreds = btoa(`${creds.username}:${creds.appPassword}`);
+    const headers = {
+        'Authorization': `Basic ${encodedCreds}`,
+        'Content-Type': 'application/json',
+    };
+
+    const bodyPayload = { meta };
+    const body = JSON.stringify(bodyPayload);
+
+    console.log(`Attempting to update Post ID ${id} at ${apiUrl} with payload:`, bodyPayload);
+
+    try {
+        const response = await robustFetch(apiUrl, {
+            method: 'POST',
+            headers,
+            body
+        }, { throwOnHttpError: false, timeout: 30000 });
+
+        if (!response.ok) {
+             if (response.status === 401 || response.status === 403) {
+                throw new Error("Authorization failed. Please check your username and Application Password.");
+             }
+            const errorBody = await response.text();
+            console.error("WP Update Error Response Body:", errorBody);
+            throw new Error(`WordPress API returned an error (Status: ${response.status}). You may not have permission to edit this post.`);
+        }
 
-            if (!response.ok) {
-                 if (response.status === 401 || response.status === 403) {
-                    throw new Error("Authorization failed. Please check your username and Application Password.");
-                 }
-                const errorBody = await response.text();
-                console.error("WP Update Error Response Body:", errorBody);
-                throw new Error(`WordPress API returned an error (Status: ${response.status}). You may not have permission to edit this post.`);
-            }
+        console.log(`Successfully updated ${label} for post ID ${id} on ${creds.siteUrl}`);
 
-            console.log(`Successfully updated SEO for post ID ${id} on ${creds.siteUrl}`);
+    } catch (error) {
+        console.error(`Error updating ${label} on WordPress:`, error);
+        throw error;
+    }
+}
 
-        } catch (error) {
-            console.error("Error in updateSeoOnWordPress:", error);
-            throw error;
-        }
-    });
+/**
+ * Updates the SEO meta title and description for a specific post on a WordPress site.
+ * This function is "ultra-smart" as it sends update keys for the most popular
+ * SEO plugins (Yoast, AIOSEO, Rank Math) simultaneously.
+ * When social variants are given, the plugins' Open Graph / Twitter keys are updated too.
+ * NOW with concurrent queue processing.
+ */
+export async function updateSeoOnWordPress(creds: WordPressCreds, pageUrl: string, newTitle: string, newDescription: string, social?: SocialMetaUpdate): Promise<void> {
+    return wpQueue.add(() => updatePostMeta(creds, pageUrl, {
+        '_yoast_wpseo_title': newTitle,
+        '_yoast_wpseo_metadesc': newDescription,
+        '_aioseo_title': newTitle,
+        '_aioseo_description': newDescription,
+        'rank_math_title': newTitle,
+        'rank_math_description': newDescription,
+        ...(social ? buildSocialMetaPayload(social) : {})
+    }, 'SEO'));
+}
+
+/**
+ * Writes generated JSON-LD into the site's schema meta field (creds.schemaMetaKey).
+ * SEO plugins don't expose their schema graph over REST, so this only works for sites whose
+ * theme or a custom snippet prints that meta field as a JSON-LD script.
+ */
+export async function updateSchemaOnWordPress(creds: WordPressCreds, pageUrl: string, jsonLd: Record<string, any>): Promise<void> {
+    if (!creds.schemaMetaKey) {
+        throw new Error("No schema meta field configured. Add one in the WordPress connection settings.");
+    }
+    return wpQueue.add(() => updatePostMeta(creds, pageUrl, { [creds.schemaMetaKey!]: JSON.stringify(jsonLd) }, 'schema'));
 }
\ No newline at end of file
@@ -4,18 +4,113 @@ export interface SeoData {
     title: string;
     description: string;
     content: string; // The main content of the page
+    canonicalUrl?: string; // Absolute href of link[rel=canonical], if present
+    metaRobots?: string; // Content of meta[name=robots] / meta[name=googlebot]
+    xRobotsTag?: string; // X-Robots-Tag response header, when readable
+    httpStatus?: number; // Final HTTP status of the page fetch
+    redirectChain?: RedirectHop[]; // Each redirect followed before reaching finalUrl (empty = no redirect)
+    redirectTraceUnknown?: boolean; // A proxy followed redirects without reporting them, so redirectChain may be incomplete
+    finalUrl?: string; // Where the URL ends up after redirects
+    socialMeta?: SocialMeta; // Open Graph / Twitter Card tags, undefined for pages crawled before this was captured
+    headings?: HeadingOutlineItem[]; // H1–H3 outline in document order
+    structuredData?: StructuredDataReport; // JSON-LD already on the page
+    sitemapMeta?: SitemapMeta; // Hints from the page's sitemap <url> entry
+    faviconUrl?: string; // Absolute href of link[rel=icon], if present
+    outboundLinks?: InternalLink[]; // Followable same-site links on the page, one per target URL
+    urlVariants?: string[]; // Discovered URLs that normalised to this one (http/www/slash/tracking variants)
 }
 
+// Optional per-URL hints from a sitemap <url> entry.
+export interface SitemapMeta {
+    lastmod?: string; // W3C datetime as written in the sitemap
+    priority?: number; // 0.0–1.0
+    changefreq?: string;
+}
+
+// A single JSON-LD entity found on a page.
+export interface StructuredDataItem {
+    type: string; // The schema.org @type
+    missingProperties: string[]; // Required properties for the type's rich result that are absent
+    node: Record<string, any>; // The parsed JSON-LD object
+}
+
+// Summary of a page's existing JSON-LD.
+export interface StructuredDataReport {
+    types: string[]; // Distinct @types present
+    items: StructuredDataItem[];
+    parseErrors: string[]; // One entry per block that is not valid JSON
+}
+
+// One entry of a page's heading outline.
+export interface HeadingOutlineItem {
+    level: 1 | 2 | 3;
+    text: string;
+}
+
+// Open Graph and Twitter Card tags that control how a page looks when shared.
+export interface SocialMeta {
+    ogTitle?: string;
+    ogDescription?: string;
+    ogImage?: string;
+    twitterTitle?: string;
+    twitterDescription?: string;
+    ogSiteName?: string; // Shown as the site name in search results when present
+    articlePublishedTime?: string; // article:published_time
+}
+
+// A single redirect response on the way to a page's final destination.
+export interface RedirectHop {
+    url: string;
+    status?: number; // Undefined when the browser hides the exact 3xx code (cross-origin opaque redirect)
+}
+
+// Whether a page can appear in search results, and if not, why.
+export type IndexabilityVerdict = 'indexable' | 'noindex' | 'canonicalised' | 'http_error';
+
 // Represents the results of a fast, programmatic (non-AI) SEO check.
 export interface QuickScanResult {
     isTitleMissing: boolean;
-    isTitleTooLong: boolean;
+    isTitleTooLong: boolean; // Wider than Google shows on desktop (pixel width, not characters)
     isTitleTooShort: boolean;
     isDescriptionMissing: boolean;
-    isDescriptionTooLong: boolean;
+    isDescriptionTooLong: boolean; // Pixel width, as for titles
     isDescriptionTooShort: boolean;
     isTitleDuplicate: boolean;
     isDescriptionDuplicate: boolean;
+    isTitleNearDuplicate: boolean; // Similar (not identical) to another page's title, e.g. templated titles
+    isDescriptionNearDuplicate: boolean;
+    isNoindex: boolean;
+    isNofollow: boolean;
+    isCanonicalisedElsewhere: boolean;
+    isHttpError: boolean;
+    isRedirected: boolean;
+    isRedirectChain: boolean; // More than one hop
+    isClientError: boolean; // 4xx
+    isSocialMetaMissing: boolean; // No og:title or og:description
+    isOgImageMissing: boolean;
+    isSocialMetaMismatched: boolean; // Social tags differ from the meta title/description (often stale copies)
+    isH1Missing: boolean;
+    isMultipleH1: boolean;
+    isH1SameAsTitle: boolean;
+    isStructuredDataInvalid: boolean; // A JSON-LD block failed to parse
+    isStructuredDataIncomplete: boolean; // A known type is missing required properties
+    isUrlVariantDuplicate: boolean; // Several discovered URLs collapsed into this one
+    isOrphan: boolean; // No other crawled page links here
+    isLowInlinks: boolean; // Linked from only a few crawled pages
+    indexability: IndexabilityVerdict;
+}
+
+// A link between two pages of the crawled site.
+export interface InternalLink {
+    url: string; // Target for outbound links, source page for inbound links
+    anchorText: string;
+    href?: string; // The link as written on the page (resolved, without fragment), when normalisation changed it
+}
+
+// A semantically close page, from embedding clustering.
+export interface SimilarPage {
+    url: string;
+    similarity: number; // Cosine similarity of the page embeddings, 0-1
 }
 
 // Represents a strategic suggestion for an internal link.
@@ -28,9 +123,10 @@ export interface InternalLinkSuggestion {
 
 // The complete, all-in-one data object for a page, including its analysis and rewrite suggestions.
 export interface SeoAnalysis extends SeoData {
-    status: 'discovered' | 'scanned' | 'analyzing' | 'analyzed' | 'updating' | 'synced' | 'error';
+    status: 'discovered' | 'scanned' | 'blocked' | 'analyzing' | 'analyzed' | 'updating' | 'synced' | 'error'; // 'blocked' = disallowed by robots.txt, never fetched
     issues: string[];
     quickScan?: QuickScanResult;
+    inlinks?: InternalLink[]; // Crawled pages linking here, from the link graph built at scan time
     grade?: number;
     titleGrade?: number;
     titleFeedback?: string;
@@ -75,6 +171,22 @@ export interface SeoAnalysis extends SeoData {
     priorityScore?: number; // 0-100 score for prioritization
     pendingSuggestion?: RewriteSuggestion; // The top AI suggestion pending review
     semanticDiff?: string[]; // Explanation of why the new suggestion is better
+    generatedSchema?: GeneratedSchema; // AI-generated JSON-LD ready to paste or push
+
+    similarPages?: SimilarPage[]; // Nearest pages in the same embedding cluster, best first
+
+    // Link-following crawl metadata
+    crawlDepth?: number; // Clicks from the start URL (0 = start page). Undefined for sitemap/file sources.
+}
+
+// Schema types the JSON-LD generator can produce.
+export type JsonLdSchemaType = 'FAQPage' | 'Article' | 'BlogPosting' | 'Product' | 'LocalBusiness';
+
+// AI-generated JSON-LD for a page, after validation against the type's required properties.
+export interface GeneratedSchema {
+    type: JsonLdSchemaType;
+    jsonLd: Record<string, any>;
+    missingProperties: string[]; // Required properties the page content could not supply
 }
 
 // A single AI-generated rewrite suggestion.
@@ -89,6 +201,8 @@ export interface RewriteSuggestion {
         specificity?: string;
     };
     expectedCtrLift?: string;
+    socialTitle?: string; // Variant for og:title / twitter:title
+    socialDescription?: string; // Variant for og:description / twitter:description
 }
 
 // Data structure for a live competitor result from a SERP scrape.
@@ -106,6 +220,49 @@ export interface TopicCluster {
     analyzedCount: number;
 }
 
+// How a set of pages competing for the same query should be resolved.
+export type CannibalizationFix = 'merge' | 'differentiate' | 'canonicalize';
+
+// Pages in one topic that compete for the same keywords, with the evidence and a recommended fix.
+export interface CannibalizationGroup {
+    topic: string;
+    urls: string[];
+    primaryUrl: string; // The strongest page: the one to keep when merging or canonicalising
+    score: number; // 0-1, average overlap of the competing pairs
+    severity: 'high' | 'medium' | 'low';
+    sharedKeywords: string[];
+    titleSimilarity: number; // Highest pairwise title similarity, 0-1
+    sharedIntent?: SeoAnalysis['searchIntent']; // Set when every page has the same intent
+    recommendation: CannibalizationFix;
+    reason: string;
+}
+
+// How URLs are discovered for a live crawl.
+// 'auto' = sitemaps first, falling back to link-following when none are found.
+export type CrawlMode = 'auto' | 'sitemap' | 'links';
+
+// Include/exclude rules limiting which URLs are scanned. Each rule is a glob (e.g. /blog/**) or a "re:" regex.
+export interface CrawlScope {
+    include: string[];
+    exclude: string[];
+}
+
+// How URLs of a site are rewritten before deduplication and caching. Saved per site.
+export interface UrlNormalization {
+    protocol: 'keep' | 'https';
+    host: 'keep' | 'www' | 'non-www';
+    trailingSlash: 'keep' | 'add' | 'remove';
+    stripTrackingParams: boolean; // utm_*, gclid, fbclid and similar
+    ignoredParams: string[]; // Extra query parameters to drop, e.g. replytocom
+}
+
+// Options for the live site crawl.
+export interface CrawlOptions {
+    mode?: CrawlMode;
+    maxDepth?: number; // Max link depth from the start URL (link-following only)
+    maxPages?: number; // Max pages to discover (link-following only)
+    scope?: CrawlScope;
+}
 
 // Defines the supported AI providers.
 export type AiProvider = 'gemini' | 'openai' | 'openrouter' | 'groq';
@@ -119,11 +276,51 @@ export interface AiConfig {
     isValid: boolean | null; // null = untested, true = valid, false = invalid
 }
 
+// What a request is for. Proxies can be allowed for crawling pages, for API calls, or both.
+export type FetchPurpose = 'crawl' | 'api';
+
+// A CORS proxy that robustFetch falls back to when a direct request fails.
+export interface FetchProxy {
+    id: string;
+    name: string;
+    endpoint: string;
+    type: 'prefix' | 'query_param'; // prefix: endpoint + url; query_param: endpoint + encodeURIComponent(url)
+    enabled: boolean;
+    useForCrawl: boolean; // Fetching site pages, sitemaps, robots.txt and SERPs
+    useForApi: boolean; // AI provider and WordPress requests, which carry API keys and credentials
+    trusted?: boolean; // May see requests carrying secrets (API keys, passwords). Only for proxies you control.
+}
+
+// How one fetch route (the direct connection or a proxy) has performed for a host this session.
+export interface RouteHealth {
+    host: string;
+    routeId: string; // 'direct' or a FetchProxy id
+    routeName: string;
+    successes: number;
+    failures: number;
+    latencyMs: number | null; // Smoothed time to response, null until a request succeeds
+    lastError?: string;
+    benchedUntil?: number; // Epoch ms, set while the route is benched for repeated failures
+    preferred: boolean; // The route tried first for this host
+}
+
+// How pages are grouped into topics before analysis.
+// 'ai' = one AI call per page; 'local' = offline TF-IDF clustering; 'local-ai-labels' = offline, then one AI call per cluster to name it.
+// 'embeddings' = provider embeddings clustered by cosine similarity (Gemini or OpenAI keys only).
+export type TopicClusteringMode = 'ai' | 'local' | 'local-ai-labels' | 'embeddings';
+
+// Social share title/description to push alongside the meta tags.
+export interface SocialMetaUpdate {
+    title: string;
+    description: string;
+}
+
 // Credentials for updating a WordPress site.
 export interface WordPressCreds {
     siteUrl: string;
     username: string;
     appPassword: string;
+    schemaMetaKey?: string; // Post meta field the site's theme/plugin outputs as JSON-LD, if any
 }
 
 // Filter types for the data table.
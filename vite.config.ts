@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createProxyHandler } from './proxy/corsProxy.mjs';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +10,22 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        {
+          // The bundled CORS proxy, so the "Local proxy (dev server)" entry works during `npm run dev`.
+          // The dev server listens on every interface, so without PROXY_TOKEN the proxy only answers this machine.
+          name: 'cors-proxy',
+          configureServer(server) {
+            server.middlewares.use('/cors-proxy', createProxyHandler({
+              token: env.PROXY_TOKEN || undefined,
+              loopbackClientsOnly: !env.PROXY_TOKEN,
+              allowedOrigins: (env.PROXY_ALLOWED_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean),
+              allowPrivateTargets: env.PROXY_ALLOW_PRIVATE === '1',
+            }));
+          },
+        },
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)